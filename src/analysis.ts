@@ -0,0 +1,307 @@
+'use strict';
+// Editor-independent readability analysis. Nothing in here should import
+// 'vscode', so it can be used from the extension, the tests, or anything else.
+
+import * as readabilityTests from './readabilityTests';
+import {DifficultWordReason, TextCounts, WordMatch} from './readabilityTests';
+import {Formula, getFormula, getFormulaFor, getFormulasFor, isHarderThan} from './formulas';
+import {extractProse, getSourceRange, ProseSegment} from './prose';
+import {RunCache} from './cache';
+import {Glossary} from './glossary';
+import {defaultLanguageId} from './languages';
+import {checkStyle, StyleMatch, StyleRuleOptions} from './styleRules';
+import {ReadabilitySettings} from './settings';
+import {findSuppressedRanges, isSuppressed, overlapsSuppressed} from './suppressions';
+import {splitSentences} from './tokenizer';
+
+export interface AnalysisOptions {
+    // formula id, as used by the readabilityHelper.formula setting
+    formula?: string;
+    // formulas defined in settings, which the formula id may refer to
+    customFormulas?: Formula[];
+    // language id of the text, eg 'markdown' or 'plaintext'
+    languageId?: string;
+    // the natural language the text is written in, eg 'en' or 'de'. The
+    // formula must be one for this language, otherwise the language's default is used
+    language?: string;
+    // reuse results for paragraphs that haven't changed since the last run
+    cache?: AnalysisCache;
+    // also list the words that make the text harder under the formula
+    findDifficultWords?: boolean;
+    // extra familiar words for the Dale-Chall and Spache formulas
+    glossary?: Glossary;
+    // run these style rules over each sentence
+    styleRules?: StyleRuleOptions;
+}
+
+export interface SentenceReport {
+    text: string;
+    // offsets into the original text passed to analyzeText
+    start: number;
+    end: number;
+    score: number;
+    counts: TextCounts;
+}
+
+export interface WordReport {
+    text: string;
+    start: number;
+    end: number;
+    reason: DifficultWordReason;
+}
+
+export interface HeadingReport {
+    text: string;
+    // heading level from 1 to 6
+    depth: number;
+    start: number;
+    end: number;
+}
+
+export interface ReadabilityReport {
+    // the natural language the text was scored as
+    language: string;
+    formula: string;
+    formulaName: string;
+    lowerScoreIsEasier: boolean;
+    // document score under the selected formula
+    score: number;
+    // document scores under every formula for the language, by formula id
+    scores: {[formula: string]: number};
+    // what the score would be without the glossary
+    scoreWithoutGlossary: number;
+    statistics: TextCounts;
+    sentences: SentenceReport[];
+    // headings, in document order
+    headings: HeadingReport[];
+    // only filled in when findDifficultWords is set
+    difficultWords: WordReport[];
+    // only filled in when styleRules is set, with offsets into the original text
+    styleIssues: StyleMatch[];
+}
+
+// what we know about a single segment, independent of where it sits in the document
+interface SegmentAnalysis {
+    counts: TextCounts;
+    // sentence ranges are offsets into the segment's text
+    sentences: {text: string, start: number, end: number, counts: TextCounts}[];
+}
+
+function analyzeSegment(segment: ProseSegment, glossary: Glossary | undefined, language: string): SegmentAnalysis {
+    const analysis: SegmentAnalysis = {
+        counts: readabilityTests.emptyTextCounts(),
+        sentences: [],
+    };
+
+    // sentences never cross a segment boundary, and the same sentences are
+    // counted and highlighted
+    splitSentences(segment.text).forEach(sentence => {
+        const counts = {...readabilityTests.getTextCounts(sentence.text, glossary, language), sentences: 1};
+        analysis.sentences.push({text: sentence.text, start: sentence.start, end: sentence.end, counts});
+        analysis.counts = readabilityTests.addTextCounts(analysis.counts, counts);
+    });
+
+    return analysis;
+}
+
+// Keeps the analysis of each paragraph between runs, so that only paragraphs
+// that changed need to be parsed and analyzed again. Use one cache per document.
+export class AnalysisCache {
+    public blocks = new RunCache<ProseSegment[]>();
+    public segments = new RunCache<SegmentAnalysis>();
+    public words = new RunCache<WordMatch[]>();
+    public styleIssues = new RunCache<StyleMatch[]>();
+    private countsKey = '';
+
+    // results depend on the glossary and language, so throw them away when they change
+    useCountOptions(glossary: Glossary | undefined, language: string) {
+        const key = `${language}\n${glossary ? glossary.key : ''}`;
+        if (key !== this.countsKey) {
+            this.segments.clear();
+            this.words.clear();
+            this.countsKey = key;
+        }
+    }
+
+    prune() {
+        this.blocks.prune();
+        this.segments.prune();
+        this.words.prune();
+        this.styleIssues.prune();
+    }
+}
+
+export function analyzeText(rawContent: string, options: AnalysisOptions = {}): ReadabilityReport {
+    const language = options.language || defaultLanguageId;
+    const formula = getFormulaFor(options.formula, language, options.customFormulas);
+    const cache = options.cache || new AnalysisCache();
+    cache.useCountOptions(options.glossary, language);
+
+    let statistics = readabilityTests.emptyTextCounts();
+    const sentences: SentenceReport[] = [];
+    const headings: HeadingReport[] = [];
+    const difficultWords: WordReport[] = [];
+    const styleIssues: StyleMatch[] = [];
+    const styleRuleOptions = options.styleRules;
+    const styleRulesKey = JSON.stringify(styleRuleOptions);
+    const wordReason = options.findDifficultWords ? formula.difficultWords : undefined;
+    // parts of the document left out by readability-disable comments
+    const suppressed = findSuppressedRanges(rawContent, options.languageId);
+
+    extractProse(rawContent, options.languageId, cache.blocks).forEach(segment => {
+        const analysis = cache.segments.get(segment.text, () => analyzeSegment(segment, options.glossary, language));
+        // most segments aren't suppressed at all, so only check each sentence when they are
+        const [segmentStart, segmentEnd] = getSourceRange(segment, 0, segment.text.length);
+        const partlySuppressed = overlapsSuppressed(suppressed, segmentStart, segmentEnd);
+        const isIncluded = (start: number) => !partlySuppressed || !isSuppressed(suppressed, start);
+        if (!partlySuppressed) {
+            statistics = readabilityTests.addTextCounts(statistics, analysis.counts);
+        }
+
+        if (segment.kind === 'heading') {
+            headings.push({text: segment.text.trim(), depth: segment.depth || 1, start: segmentStart, end: segmentEnd});
+        }
+
+        analysis.sentences.forEach(sentence => {
+            const [start, end] = getSourceRange(segment, sentence.start, sentence.end);
+            if (!isIncluded(start)) {
+                return;
+            }
+            if (partlySuppressed) {
+                statistics = readabilityTests.addTextCounts(statistics, sentence.counts);
+            }
+            sentences.push({
+                text: sentence.text,
+                start,
+                end,
+                score: formula.sentenceScore(sentence.counts),
+                counts: sentence.counts,
+            });
+        });
+
+        if (wordReason) {
+            const words = cache.words.get(`${wordReason}\n${segment.text}`, () => readabilityTests.getWordsFor(segment.text, wordReason, options.glossary, language));
+            words.forEach(word => {
+                const [start, end] = getSourceRange(segment, word.index, word.index + word.word.length);
+                if (!isIncluded(start)) {
+                    return;
+                }
+                difficultWords.push({text: word.word, start, end, reason: wordReason});
+            });
+        }
+
+        if (styleRuleOptions && styleRuleOptions.enabledRules.length > 0) {
+            const matches = cache.styleIssues.get(`${styleRulesKey}\n${segment.text}`, () => {
+                // style rules work on single sentences, so move their offsets into the segment
+                let segmentMatches: StyleMatch[] = [];
+                analysis.sentences.forEach(sentence => {
+                    segmentMatches = segmentMatches.concat(checkStyle(sentence.text, styleRuleOptions).map(match => Object.assign({}, match, {
+                        start: match.start + sentence.start,
+                        end: match.end + sentence.start,
+                    })));
+                });
+                return segmentMatches;
+            });
+            matches.forEach(match => {
+                const [start, end] = getSourceRange(segment, match.start, match.end);
+                if (!isIncluded(start)) {
+                    return;
+                }
+                styleIssues.push(Object.assign({}, match, {start, end}));
+            });
+        }
+    });
+    cache.prune();
+
+    const scores: {[formula: string]: number} = {};
+    getFormulasFor(language, options.customFormulas).forEach(f => {
+        scores[f.id] = f.docScore(statistics);
+    });
+
+    return {
+        language,
+        formula: formula.id,
+        formulaName: formula.name,
+        lowerScoreIsEasier: formula.lowerScoreIsEasier,
+        score: scores[formula.id],
+        scores,
+        scoreWithoutGlossary: formula.docScore(readabilityTests.withoutGlossary(statistics)),
+        statistics,
+        sentences,
+        headings,
+        difficultWords,
+        styleIssues,
+    };
+}
+
+// explains why a word makes the text harder to read
+export function describeDifficultWord(word: WordReport): string {
+    switch (word.reason) {
+        case 'dale-chall':
+            return `"${word.text}" is not on the Dale-Chall list of familiar words`;
+        case 'spache':
+            return `"${word.text}" is not on the Spache list of familiar words`;
+        default:
+            return `"${word.text}" has 3 or more syllables`;
+    }
+}
+
+// explains how much the glossary changed the score, if at all
+export function describeGlossaryEffect(report: ReadabilityReport): string | undefined {
+    const change = Number((report.score - report.scoreWithoutGlossary).toFixed(1));
+    if (change === 0) {
+        return undefined;
+    }
+    return `The glossary changed the score by ${change > 0 ? '+' : ''}${change} (${report.scoreWithoutGlossary} without it)`;
+}
+
+// Returns the sentences that should be flagged as difficult to read, in
+// document order. Sentences shorter than the minimum are never flagged.
+//  - 'threshold' flags every sentence harder than the max sentence score
+//  - 'percent' flags the hardest percentage of sentences
+//  - 'top' flags the hardest few sentences
+// The last two only flag sentences when the document as a whole is harder
+// than the max score, since there are always some hardest sentences.
+// A document passes if its score is within the max score. With threshold
+// flagging, each flagged sentence is too hard on its own, so it fails too.
+export function isPassing(report: ReadabilityReport, settings: ReadabilitySettings, difficultSentences: SentenceReport[]): boolean {
+    const formula = getFormula(report.formula, settings.customFormulas);
+    if (settings.sentenceFlagging === 'threshold' && difficultSentences.length > 0) {
+        return false;
+    }
+    return !isHarderThan(formula, report.score, settings.maxDifficultyScore);
+}
+
+export function findDifficultSentences(report: ReadabilityReport, settings: ReadabilitySettings): SentenceReport[] {
+    if (!settings.highlightDifficultSentences) {
+        return [];
+    }
+    const formula = getFormula(report.formula, settings.customFormulas);
+    const candidates = report.sentences.filter(sentence => sentence.counts.words >= settings.minSentenceWords);
+
+    if (settings.sentenceFlagging === 'threshold') {
+        return candidates.filter(sentence => isHarderThan(formula, sentence.score, settings.maxSentenceScore));
+    }
+    if (!isHarderThan(formula, report.score, settings.maxDifficultyScore)) {
+        return [];
+    }
+
+    const count = settings.sentenceFlagging === 'percent'
+        ? Math.ceil(candidates.length * settings.sentenceFlagPercent / 100)
+        : settings.sentenceFlagCount;
+    if (count <= 0) {
+        return [];
+    }
+
+    // sort once by most difficult to least
+    const sentencesByDifficulty = candidates.slice();
+    if (formula.lowerScoreIsEasier) {
+        sentencesByDifficulty.sort((a, b) => b.score - a.score);
+    } else {
+        sentencesByDifficulty.sort((a, b) => a.score - b.score);
+    }
+    const difficultTexts = new Set(sentencesByDifficulty.slice(0, count).map(sentence => sentence.text));
+
+    // and mark repeated instances of the same sentences
+    return candidates.filter(sentence => difficultTexts.has(sentence.text));
+}
@@ -0,0 +1,67 @@
+'use strict';
+// The worker thread behind BackgroundAnalyzer. It keeps an analysis cache for
+// each document it's asked about, and the familiar word lists and glossary
+// stay loaded between requests.
+
+import {parentPort} from 'worker_threads';
+
+import {AnalysisCache, analyzeText} from './analysis';
+import {WorkerRequest, WorkerResponse} from './backgroundAnalysis';
+import {createCustomFormula} from './customFormulas';
+import {Glossary} from './glossary';
+
+const caches = new Map<string, AnalysisCache>();
+let lastGlossary: Glossary | undefined = undefined;
+
+function getCache(cacheKey?: string): AnalysisCache {
+    // documents without a key are only analyzed once, so nothing is kept
+    if (cacheKey === undefined) {
+        return new AnalysisCache();
+    }
+    let cache = caches.get(cacheKey);
+    if (!cache) {
+        cache = new AnalysisCache();
+        caches.set(cacheKey, cache);
+    }
+    return cache;
+}
+
+// the glossary rarely changes between requests, so keep the last one
+function getGlossary(words: string[]): Glossary {
+    const glossary = new Glossary(words);
+    if (!lastGlossary || lastGlossary.key !== glossary.key) {
+        lastGlossary = glossary;
+    }
+    return lastGlossary;
+}
+
+function handleRequest(request: WorkerRequest): WorkerResponse | undefined {
+    if (request.type === 'forget') {
+        caches.delete(request.cacheKey);
+        return undefined;
+    }
+
+    const {customFormulas, glossaryWords, ...options} = request.options;
+    try {
+        const report = analyzeText(request.content, {
+            ...options,
+            // the definitions were checked when the settings were read
+            customFormulas: (customFormulas || []).map(definition => createCustomFormula(definition, [])),
+            glossary: glossaryWords && getGlossary(glossaryWords),
+            cache: getCache(request.cacheKey),
+        });
+        return {id: request.id, report};
+    } catch (err) {
+        return {id: request.id, error: err.message};
+    }
+}
+
+if (parentPort) {
+    const port = parentPort;
+    port.on('message', (request: WorkerRequest) => {
+        const response = handleRequest(request);
+        if (response) {
+            port.postMessage(response);
+        }
+    });
+}
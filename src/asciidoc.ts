@@ -0,0 +1,148 @@
+'use strict';
+// Prose in AsciiDoc documents. Listing, literal, passthrough and comment blocks
+// and tables are skipped, while examples, sidebars and quotes are read.
+
+import {ProseKind, ProseSegment, SourceComment} from './prose';
+import {getLines, InlineRule, SourceTextBuilder} from './sourceText';
+
+const inlineRules: InlineRule[] = [
+    {pattern: /\\([*_`#~^+{])/g, replacement: match => match[1]},
+    // monospace and passthroughs
+    {pattern: /``[^]*?``|`[^`\n]+`|\+\+\+[^]*?\+\+\+|pass:\w*\[[^\]]*\]/g},
+    {pattern: /(?:image|footnote|footnoteref|kbd|stem|latexmath|asciimath|indexterm2?):[^\s[]*\[[^\]]*\]|\(\(\([^)]*\)\)\)/g},
+    // links and cross references keep their text
+    {pattern: /(?:https?|ftp|mailto|irc):[^\s[]+\[([^\]]*)(\])/g},
+    {pattern: /(?:link|xref):[^\s[]+\[([^\]]*)(\])/g},
+    {pattern: /<<[^,>]+,\s*([^>]*)(>>)/g},
+    {pattern: /<<[^>]*>>|https?:\/\/\S+/g},
+    // attribute references and inline anchors
+    {pattern: /\{[\w-]+\}|\[\[[^\]]*\]\]|\[#[^\]]*\]/g},
+    // bold, italic, highlight, superscript and subscript
+    {pattern: /(?:\[[^\]]*\])?\*\*([^]+?)(\*\*)/g},
+    {pattern: /(?:\[[^\]]*\])?__([^]+?)(__)/g},
+    {pattern: /(?:\[[^\]]*\])?##([^]+?)(##)/g},
+    {pattern: /(?:\[[^\]]*\])?\*(\S(?:[^*]*\S)?)(\*)/g},
+    {pattern: /(?:\[[^\]]*\])?\b_(\S(?:[^_]*\S)?)(_)\b/g},
+    {pattern: /(?:\[[^\]]*\])?#(\S(?:[^#]*\S)?)(#)/g},
+    {pattern: /\^(\S+?)(\^)/g},
+    {pattern: /~(\S+?)(~)/g},
+    // hard line breaks
+    {pattern: / \+$/gm},
+];
+
+// delimited blocks that never contain prose
+const skippedDelimiters = /^(-{4,}|\.{4,}|\+{4,}|\/{4,}|\|={3,}|,={3,}|:={3,}|!={3,})\s*$/;
+// delimited blocks whose content is read as usual
+const openDelimiters = /^(={4,}|\*{4,}|_{4,}|--)\s*$/;
+
+const listItemRegex = /^\s*(?:[*-]+|\.+|\d+\.|[a-zA-Z]\.|<\d+>)\s+(?:\[[ x*]\]\s+)?/;
+const admonitionRegex = /^(?:NOTE|TIP|IMPORTANT|WARNING|CAUTION):\s+/;
+
+// Reads the prose, and adds the single line comments outside skipped blocks to
+// comments if it's given.
+function readAsciidoc(content: string, comments?: SourceComment[]): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+
+    // the paragraph or list item we're in the middle of
+    let pending: {start: number, end: number, kind: ProseKind} | undefined = undefined;
+    const flush = () => {
+        if (pending) {
+            builder.addInline(pending.start, pending.end, inlineRules);
+            builder.flush(segments, pending.kind);
+            pending = undefined;
+        }
+    };
+
+    // the delimiter that ends the block we're skipping
+    let skipUntil: string | undefined = undefined;
+    // literal paragraphs are indented, and last until a blank line
+    let inLiteral = false;
+    // the document header, up to the first blank line, is all attributes
+    let inHeader = false;
+
+    getLines(content).forEach(line => {
+        const text = line.text.trimEnd();
+        const end = line.start + text.length;
+
+        if (skipUntil !== undefined) {
+            if (text === skipUntil) {
+                skipUntil = undefined;
+            }
+            return;
+        }
+        if (text.trim() === '') {
+            flush();
+            inLiteral = false;
+            inHeader = false;
+            return;
+        }
+        if (inLiteral || inHeader) {
+            return;
+        }
+
+        const delimiter = skippedDelimiters.exec(text);
+        if (delimiter) {
+            flush();
+            skipUntil = delimiter[1];
+            return;
+        }
+        if (openDelimiters.test(text)) {
+            flush();
+            return;
+        }
+        if (comments && text.startsWith('//')) {
+            comments.push({text: text.slice(2), start: line.start, end});
+        }
+        // single line comments, attribute entries, block attributes, titles and anchors
+        if (/^(\/\/|:[\w!-]+:|\[.*\]$|\.[^.\s]|ifdef::|ifndef::|ifeval::|endif::|include::|toc::)/.test(text)) {
+            flush();
+            return;
+        }
+
+        const heading = /^(={1,6}|#{1,6})\s+(\S.*?)(?:\s+\1)?$/.exec(text);
+        if (heading) {
+            flush();
+            const start = line.start + text.indexOf(heading[2], heading[1].length);
+            builder.addInline(start, start + heading[2].length, inlineRules);
+            builder.flush(segments, 'heading', heading[1].length);
+            // the document title is followed by the header
+            inHeader = heading[1] === '=';
+            return;
+        }
+        if (!pending && /^\s/.test(text) && !listItemRegex.test(text)) {
+            inLiteral = true;
+            return;
+        }
+        // a list item continued by an attached block
+        if (text === '+') {
+            flush();
+            return;
+        }
+
+        const item = listItemRegex.exec(text);
+        const admonition = admonitionRegex.exec(text);
+        if (item) {
+            flush();
+            pending = {start: line.start + item[0].length, end, kind: 'listItem'};
+        } else if (pending) {
+            pending.end = end;
+        } else {
+            const start = line.start + (admonition ? admonition[0].length : 0);
+            pending = {start, end, kind: 'paragraph'};
+        }
+    });
+    flush();
+
+    return segments;
+}
+
+export function extractAsciidocProse(content: string): ProseSegment[] {
+    return readAsciidoc(content);
+}
+
+export function findAsciidocComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    readAsciidoc(content, comments);
+    return comments;
+}
@@ -0,0 +1,113 @@
+'use strict';
+// Scores long documents in a worker thread, so the editor doesn't stall while
+// they're analyzed. Short documents are quicker to score on the spot.
+
+import * as path from 'path';
+import {Worker} from 'worker_threads';
+
+import {AnalysisOptions, ReadabilityReport} from './analysis';
+import {CustomFormula, CustomFormulaDefinition} from './customFormulas';
+
+// documents with at least this many characters are scored in the worker
+const longDocumentLength = 50000;
+
+export function isLongDocument(content: string): boolean {
+    return content.length >= longDocumentLength;
+}
+
+// Options that can be posted to the worker. Custom formulas and the glossary
+// are sent as their definitions and words, and made again in the worker.
+export interface WorkerAnalysisOptions extends Omit<AnalysisOptions, 'customFormulas' | 'glossary' | 'cache'> {
+    customFormulas?: CustomFormulaDefinition[];
+    glossaryWords?: string[];
+}
+
+export type WorkerRequest =
+    {type: 'analyze', id: number, content: string, options: WorkerAnalysisOptions, cacheKey?: string} |
+    {type: 'forget', cacheKey: string};
+
+export type WorkerResponse = {id: number, report: ReadabilityReport} | {id: number, error: string};
+
+export interface BackgroundAnalysisOptions extends Omit<AnalysisOptions, 'customFormulas' | 'cache'> {
+    customFormulas?: CustomFormula[];
+}
+
+type PendingAnalysis = {resolve: (report: ReadabilityReport) => void, reject: (err: Error) => void};
+
+// Requests are answered in the order they're made. The worker is started the
+// first time it's needed, and again if it stops.
+export class BackgroundAnalyzer {
+    private worker?: Worker;
+    private nextId = 0;
+    private pending = new Map<number, PendingAnalysis>();
+
+    // cacheKey names the document, so the worker can reuse the analysis of
+    // paragraphs that haven't changed since the last request for it
+    analyze(content: string, options: BackgroundAnalysisOptions, cacheKey?: string): Promise<ReadabilityReport> {
+        const {customFormulas, glossary, ...rest} = options;
+        const request: WorkerRequest = {
+            type: 'analyze',
+            id: this.nextId++,
+            content,
+            cacheKey,
+            options: {
+                ...rest,
+                customFormulas: customFormulas && customFormulas.map(formula => formula.definition),
+                glossaryWords: glossary && glossary.getWords(),
+            },
+        };
+        return new Promise((resolve, reject) => {
+            this.pending.set(request.id, {resolve, reject});
+            this.getWorker().postMessage(request);
+        });
+    }
+
+    // forget the document's cached analysis, eg once it's closed
+    forget(cacheKey: string) {
+        if (this.worker) {
+            const request: WorkerRequest = {type: 'forget', cacheKey};
+            this.worker.postMessage(request);
+        }
+    }
+
+    private getWorker(): Worker {
+        if (this.worker) {
+            return this.worker;
+        }
+        const worker = new Worker(path.join(__dirname, 'analysisWorker.js'));
+        worker.on('message', (response: WorkerResponse) => {
+            const pending = this.pending.get(response.id);
+            this.pending.delete(response.id);
+            if (!pending) {
+                return;
+            }
+            if ('report' in response) {
+                pending.resolve(response.report);
+            } else {
+                pending.reject(new Error(response.error));
+            }
+        });
+        worker.on('error', err => this.stopped(worker, err));
+        worker.on('exit', () => this.stopped(worker, new Error('The readability worker stopped')));
+        this.worker = worker;
+        return worker;
+    }
+
+    // anything the worker was still working on fails
+    private stopped(worker: Worker, err: Error) {
+        if (this.worker !== worker) {
+            return;
+        }
+        this.worker = undefined;
+        this.pending.forEach(pending => pending.reject(err));
+        this.pending.clear();
+    }
+
+    dispose() {
+        const worker = this.worker;
+        if (worker) {
+            this.stopped(worker, new Error('The readability worker was stopped'));
+            worker.terminate();
+        }
+    }
+}
@@ -0,0 +1,32 @@
+'use strict';
+
+// Remembers results between runs over a document, forgetting anything that
+// wasn't asked for since the last prune so it doesn't grow forever.
+export class RunCache<T> {
+    private entries = new Map<string, T>();
+    private used = new Set<string>();
+
+    get(key: string, compute: () => T): T {
+        let value = this.entries.get(key);
+        if (value === undefined) {
+            value = compute();
+            this.entries.set(key, value);
+        }
+        this.used.add(key);
+        return value;
+    }
+
+    clear() {
+        this.entries.clear();
+        this.used.clear();
+    }
+
+    prune() {
+        this.entries.forEach((_, key) => {
+            if (!this.used.has(key)) {
+                this.entries.delete(key);
+            }
+        });
+        this.used.clear();
+    }
+}
@@ -0,0 +1,356 @@
+#!/usr/bin/env node
+'use strict';
+// Command line readability checker, for docs pipelines and CI.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as glob from 'glob';
+
+import {analyzeText, findDifficultSentences, isPassing, ReadabilityReport} from './analysis';
+import {ExportedFile, exportFormats, formatExport} from './exports';
+import {formulas, getFormula, isHarderThan} from './formulas';
+import {readRevisionSync} from './git';
+import {loadGlossary} from './glossary';
+import {getLanguageForTag, languages} from './languages';
+import {findProjectConfig, isIgnored, withProjectConfig} from './projectConfig';
+import {getLanguageIdForPath, getProseFileExtensions} from './prose';
+import {compareVersions} from './readabilityDiff';
+import {DiffResult, FileResult, formatDiffs, formatResults, locateSentence, outputFormats} from './reporters';
+import {loadSettingsFile, readDocumentSettings, ReadabilitySettings, readSettings, SettingGetter, withPreset} from './settings';
+import {summarizeReport} from './summary';
+
+const usage = `Usage: readability-helper [options] [files or globs...]
+
+Checks the readability of documents, and of the comments in source files that
+are named. Settings are read from .vscode/settings.json (or --settings), using
+the same names as the extension.
+
+Options:
+  -f, --formula <formula>        Formula to use (${formulas.map(f => f.id).join(', ')},
+                                 or a custom formula from the settings)
+  -l, --language <language>      Language of files that don't say which language
+                                 they're in (${languages.map(l => l.id).join(', ')})
+  -m, --max-score <score>        Max difficulty score for each file
+  --max-sentence-score <score>   Also fail when any sentence is harder than this
+  -o, --format <format>          Output format (${outputFormats.concat(exportFormats).join(', ')})
+  -s, --settings <file>          VS Code settings file to read
+  -d, --diff <version>           Compare each file with an earlier version: its
+                                 version at a git revision such as HEAD, another
+                                 file, or revision:file. Files can also be given
+                                 as revision:file. Only human and json output
+  -h, --help                     Show this help
+
+Exits with 1 if any file is too difficult to read (or with --diff, got harder to
+read), or 2 on bad usage.`;
+
+// source files are only checked when they're named
+const defaultGlob = `**/*.{${getProseFileExtensions().map(extension => extension.slice(1)).join(',')}}`;
+
+interface CliOptions {
+    formula?: string;
+    language?: string;
+    maxScore?: number;
+    maxSentenceScore?: number;
+    // the version to compare files with, if we're comparing
+    diff?: string;
+    format: string;
+    settingsPath: string;
+    patterns: string[];
+    help: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseNumber(flag: string, value?: string): number {
+    const num = Number(value);
+    if (value === undefined || value.trim() === '' || isNaN(num)) {
+        throw new UsageError(`${flag} needs a number`);
+    }
+    return num;
+}
+
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = {
+        format: 'human',
+        settingsPath: path.join('.vscode', 'settings.json'),
+        patterns: [],
+        help: false,
+    };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        switch (arg) {
+            case '-f':
+            case '--formula':
+                // checked once we've read the settings, which may define custom formulas
+                options.formula = args[++i];
+                if (!options.formula) {
+                    throw new UsageError(`${arg} needs a formula`);
+                }
+                break;
+            case '-l':
+            case '--language':
+                options.language = args[++i];
+                if (!getLanguageForTag(options.language)) {
+                    throw new UsageError(`unsupported language: ${options.language}`);
+                }
+                break;
+            case '-m':
+            case '--max-score':
+                options.maxScore = parseNumber(arg, args[++i]);
+                break;
+            case '--max-sentence-score':
+                options.maxSentenceScore = parseNumber(arg, args[++i]);
+                break;
+            case '-o':
+            case '--format':
+                options.format = args[++i];
+                if (!outputFormats.includes(options.format) && !exportFormats.includes(options.format)) {
+                    throw new UsageError(`unknown format: ${options.format}`);
+                }
+                break;
+            case '-s':
+            case '--settings':
+                options.settingsPath = args[++i];
+                if (!options.settingsPath || !fs.existsSync(options.settingsPath)) {
+                    throw new UsageError(`settings file not found: ${options.settingsPath}`);
+                }
+                break;
+            case '-d':
+            case '--diff':
+                options.diff = args[++i];
+                if (!options.diff) {
+                    throw new UsageError(`${arg} needs a revision or file`);
+                }
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`unknown option: ${arg}`);
+                }
+                options.patterns.push(arg);
+                break;
+        }
+    }
+    if (options.diff !== undefined && !['human', 'json'].includes(options.format)) {
+        throw new UsageError(`--diff can't be used with the ${options.format} format`);
+    }
+
+    return options;
+}
+
+function findFiles(patterns: string[]): string[] {
+    const files = new Set<string>();
+    (patterns.length > 0 ? patterns : [defaultGlob]).forEach(pattern => {
+        if (fs.existsSync(pattern) && fs.statSync(pattern).isFile()) {
+            files.add(pattern);
+            return;
+        }
+        glob.sync(pattern, {nodir: true, ignore: ['**/node_modules/**']}).forEach(file => files.add(file));
+    });
+    return Array.from(files).sort();
+}
+
+// Settings from the settings file, then the .readabilityrc file and audience
+// preset for the file if there is one, overridden by any given on the command line.
+function getSettingGetter(options: CliOptions, fileSettings: SettingGetter, file?: string): SettingGetter {
+    const getSetting = file ? withProjectConfig(fileSettings, findProjectConfig(file), file) : withPreset(fileSettings);
+    return name => {
+        if (name === 'readabilityHelper.formula' && options.formula) {
+            return options.formula;
+        }
+        if (name === 'readabilityHelper.language' && options.language) {
+            return options.language;
+        }
+        if (name.startsWith('readabilityHelper.maxDifficultyScore.') && options.maxScore !== undefined) {
+            return options.maxScore;
+        }
+        return getSetting(name);
+    };
+}
+
+function analyzeFile(file: string, content: string, settings: ReadabilitySettings): ReadabilityReport {
+    return analyzeText(content, {
+        formula: settings.formula,
+        customFormulas: settings.customFormulas,
+        languageId: getLanguageIdForPath(file),
+        language: settings.language,
+        // glossary files are relative to the workspace, which is where we're run from
+        glossary: loadGlossary(settings.familiarWords, settings.glossaryFiles, process.cwd()),
+    });
+}
+
+function checkFile(file: string, getSetting: SettingGetter, options: CliOptions): ExportedFile {
+    const content = fs.readFileSync(file, 'utf8');
+    const settings = readDocumentSettings(getSetting, content, file);
+    const report = analyzeFile(file, content, settings);
+    const formula = getFormula(report.formula, settings.customFormulas);
+
+    let difficultSentences = findDifficultSentences(report, settings);
+    let passed = isPassing(report, settings, difficultSentences);
+
+    if (options.maxSentenceScore !== undefined) {
+        const maxSentenceScore = options.maxSentenceScore;
+        const hardSentences = report.sentences.filter(sentence => isHarderThan(formula, sentence.score, maxSentenceScore));
+        if (hardSentences.length > 0) {
+            passed = false;
+            const flagged = new Set(difficultSentences.concat(hardSentences));
+            difficultSentences = report.sentences.filter(sentence => flagged.has(sentence));
+        }
+    }
+
+    return {
+        file: path.relative(process.cwd(), file) || file,
+        content,
+        report,
+        summary: summarizeReport(report, settings.customFormulas),
+        maxScore: settings.maxDifficultyScore,
+        passed,
+        difficultSentences,
+    };
+}
+
+function toFileResult(checked: ExportedFile): FileResult {
+    return {
+        file: checked.file,
+        report: checked.report,
+        maxScore: checked.maxScore,
+        passed: checked.passed,
+        difficultSentences: checked.difficultSentences.map(sentence => locateSentence(checked.content, sentence)),
+    };
+}
+
+interface FileVersion {
+    file: string;
+    // how the version is described in the output
+    label: string;
+    // undefined if the file isn't in git, or not at that revision
+    content?: string;
+}
+
+// a file given as revision:file, as git writes it. Files that exist are never
+// read this way, which also keeps Windows paths like C:\docs as they are
+function parseRevisionFile(spec: string): {revision: string, file: string} | undefined {
+    const match = /^([^:]+):(.+)$/.exec(spec);
+    return (match && !fs.existsSync(spec)) ? {revision: match[1], file: match[2]} : undefined;
+}
+
+function readVersion(spec: string): FileVersion {
+    const revisionFile = parseRevisionFile(spec);
+    if (revisionFile) {
+        return {file: revisionFile.file, label: spec, content: readRevisionSync(revisionFile.file, revisionFile.revision)};
+    }
+    return {file: spec, label: spec, content: fs.existsSync(spec) ? fs.readFileSync(spec, 'utf8') : undefined};
+}
+
+// the version options.diff says to compare the file with
+function readEarlierVersion(options: CliOptions, file: string): FileVersion {
+    const spec = options.diff!;
+    if (parseRevisionFile(spec) || (fs.existsSync(spec) && fs.statSync(spec).isFile())) {
+        return readVersion(spec);
+    }
+    return {file, label: spec, content: readRevisionSync(file, spec)};
+}
+
+// Compares each file with an earlier version, scoring both with the file's
+// settings so the scores are comparable.
+function compareFiles(options: CliOptions, fileSettings: SettingGetter): number {
+    const versions: FileVersion[] = [];
+    const patterns = options.patterns.length > 0 ? options.patterns : [defaultGlob];
+    patterns.forEach(pattern => {
+        if (parseRevisionFile(pattern)) {
+            versions.push(readVersion(pattern));
+        } else {
+            findFiles([pattern]).forEach(file => versions.push({file, label: 'working copy', content: fs.readFileSync(file, 'utf8')}));
+        }
+    });
+
+    const results: DiffResult[] = [];
+    let missing = 0;
+    versions.filter(version => !isIgnored(findProjectConfig(version.file), version.file)).forEach(after => {
+        const before = readEarlierVersion(options, after.file);
+        if (after.content === undefined || before.content === undefined) {
+            const version = after.content === undefined ? after : before;
+            console.error(`readability-helper: couldn't read ${after.file} in ${version.label}`);
+            missing += 1;
+            return;
+        }
+        const settings = readDocumentSettings(getSettingGetter(options, fileSettings, after.file), after.content, after.file);
+        const formula = getFormula(settings.formula, settings.customFormulas);
+        results.push({
+            file: path.relative(process.cwd(), after.file) || after.file,
+            diff: compareVersions(
+                {label: before.label, content: before.content, languageId: getLanguageIdForPath(before.file), report: analyzeFile(before.file, before.content, settings)},
+                {label: after.label, content: after.content, languageId: getLanguageIdForPath(after.file), report: analyzeFile(after.file, after.content, settings)},
+                formula,
+            ),
+        });
+    });
+    if (results.length < 1) {
+        if (missing === 0) {
+            console.error('readability-helper: no files to compare');
+        }
+        return 2;
+    }
+
+    console.log(formatDiffs(results, options.format));
+    return results.some(result => result.diff.harder) ? 1 : 0;
+}
+
+function main(args: string[]): number {
+    let options: CliOptions;
+    try {
+        options = parseArgs(args);
+    } catch (err) {
+        if (err instanceof UsageError) {
+            console.error(`readability-helper: ${err.message}\n\n${usage}`);
+            return 2;
+        }
+        throw err;
+    }
+
+    if (options.help) {
+        console.log(usage);
+        return 0;
+    }
+
+    const fileSettings = loadSettingsFile(options.settingsPath);
+    const settings = readSettings(getSettingGetter(options, fileSettings));
+    settings.customFormulaErrors.concat(settings.customPresetErrors).forEach(error => console.error(`readability-helper: ${error}`));
+    if (options.formula !== undefined && !formulas.concat(settings.customFormulas).some(f => f.id === options.formula)) {
+        console.error(`readability-helper: unknown formula: ${options.formula}\n\n${usage}`);
+        return 2;
+    }
+
+    if (options.diff !== undefined) {
+        return compareFiles(options, fileSettings);
+    }
+
+    const files = findFiles(options.patterns).filter(file => !isIgnored(findProjectConfig(file), file));
+    if (files.length < 1) {
+        console.error('readability-helper: no files to check');
+        return 2;
+    }
+
+    // report problems with each .readabilityrc file once
+    const configErrors = new Set<string>();
+    files.forEach(file => {
+        const config = findProjectConfig(file);
+        (config ? config.errors : []).forEach(error => configErrors.add(error));
+    });
+    configErrors.forEach(error => console.error(`readability-helper: ${error}`));
+
+    const results = files.map(file => checkFile(file, getSettingGetter(options, fileSettings, file), options));
+    if (exportFormats.includes(options.format)) {
+        process.stdout.write(formatExport(results, options.format));
+    } else {
+        console.log(formatResults(results.map(toFileResult), options.format));
+    }
+
+    return results.every(result => result.passed) ? 0 : 1;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,92 @@
+'use strict';
+// Quick fixes for our diagnostics: plain-language replacements, splitting long
+// sentences, and adding words to the glossary.
+
+import {CodeAction, CodeActionContext, CodeActionKind, CodeActionProvider, Diagnostic, Range, TextDocument, WorkspaceEdit} from 'vscode';
+
+import {ReadabilityReport} from './analysis';
+import {getDocumentGlossary, getDocumentSettings} from './configuration';
+import {applyRewrite, findPlainLanguageRewrites, findSplitRewrite, Rewrite, scoreText} from './rewrites';
+
+// diagnostics that cover a whole sentence
+const sentenceCodes = ['difficult-sentence', 'long-sentence'];
+
+export class ReadabilityCodeActionProvider implements CodeActionProvider {
+
+    public static readonly providedCodeActionKinds = [CodeActionKind.QuickFix];
+
+    // getReport returns the last report for an open document, if there is one
+    constructor(private getReport: (doc: TextDocument) => ReadabilityReport | undefined) {}
+
+    // the source range of the sentence around the given range
+    private _findSentence(doc: TextDocument, range: Range): Range {
+        const report = this.getReport(doc);
+        const offset = doc.offsetAt(range.start);
+        const sentence = report && report.sentences.find(s => s.start <= offset && offset < s.end);
+        if (!sentence) {
+            return range;
+        }
+        return new Range(doc.positionAt(sentence.start), doc.positionAt(sentence.end));
+    }
+
+    provideCodeActions(doc: TextDocument, range: Range, context: CodeActionContext): CodeAction[] {
+        const actions: CodeAction[] = [];
+        const settings = getDocumentSettings(doc.uri, doc.getText());
+        const glossary = getDocumentGlossary(doc.uri, settings);
+
+        // shows how a rewrite changes the score of the text it applies to
+        const preview = (before: string, after: string) => {
+            const beforeScore = scoreText(before, settings, doc.languageId, glossary);
+            const afterScore = scoreText(after, settings, doc.languageId, glossary);
+            return `(score ${beforeScore} → ${afterScore})`;
+        };
+        // rewrite offsets are relative to the sentence, which starts at sentenceStart
+        const rewriteAction = (diagnostic: Diagnostic, title: string, sentenceStart: number, sentence: string, rewrite: Rewrite) => {
+            const action = new CodeAction(`${title} ${preview(sentence, applyRewrite(sentence, rewrite))}`, CodeActionKind.QuickFix);
+            const range = new Range(doc.positionAt(sentenceStart + rewrite.start), doc.positionAt(sentenceStart + rewrite.end));
+            action.edit = new WorkspaceEdit();
+            action.edit.replace(doc.uri, range, rewrite.replacement);
+            action.diagnostics = [diagnostic];
+            return action;
+        };
+
+        context.diagnostics.forEach(diagnostic => {
+            const code = String(diagnostic.code);
+            const text = doc.getText(diagnostic.range);
+
+            const sentenceRange = sentenceCodes.includes(code) ? diagnostic.range : this._findSentence(doc, diagnostic.range);
+            const sentenceStart = doc.offsetAt(sentenceRange.start);
+            const sentence = doc.getText(sentenceRange);
+            // where the diagnostic starts within the sentence
+            const textStart = doc.offsetAt(diagnostic.range.start) - sentenceStart;
+
+            if (code === 'complex-phrase' || sentenceCodes.includes(code)) {
+                findPlainLanguageRewrites(text).forEach(rewrite => {
+                    const original = text.slice(rewrite.start, rewrite.end);
+                    const sentenceRewrite = {start: rewrite.start + textStart, end: rewrite.end + textStart, replacement: rewrite.replacement};
+                    actions.push(rewriteAction(diagnostic, `Replace "${original}" with "${rewrite.replacement}"`, sentenceStart, sentence, sentenceRewrite));
+                });
+            }
+
+            if (sentenceCodes.includes(code)) {
+                const split = findSplitRewrite(sentence);
+                if (split) {
+                    actions.push(rewriteAction(diagnostic, 'Split this sentence in two', sentenceStart, sentence, split));
+                }
+            }
+
+            if (code === 'difficult-word') {
+                const action = new CodeAction(`Add "${text}" to the glossary`, CodeActionKind.QuickFix);
+                action.command = {
+                    command: 'readabilityHelper.addToGlossary',
+                    title: 'Add to glossary',
+                    arguments: [doc.uri, text],
+                };
+                action.diagnostics = [diagnostic];
+                actions.push(action);
+            }
+        });
+
+        return actions;
+    }
+}
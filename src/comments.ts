@@ -0,0 +1,125 @@
+'use strict';
+// Prose in source code: block comments in C-like languages and docstrings in
+// Python. Tags like @param, and docstring sections like Args:, end the prose,
+// since what follows them is mostly names and types.
+
+import {ProseSegment, SourceComment} from './prose';
+import {getLines, InlineRule, SourceTextBuilder} from './sourceText';
+
+const inlineRules: InlineRule[] = [
+    // {@link target label} keeps its label, other inline tags are dropped
+    {pattern: /\{@link(?:plain)?\s+[^\s}]+\s+([^}]*)(\})/g},
+    {pattern: /\{@\w+[^}]*\}/g},
+    {pattern: /``[^`]*``|`[^`\n]*`|<code>[^]*?<\/code>/g},
+    {pattern: /<\/?[a-zA-Z][^>]*>/g},
+    {pattern: /\[([^\]]*)(\]\([^)]*\))/g},
+    {pattern: /https?:\/\/\S+/g},
+];
+
+// comments and strings, so comment markers in strings are skipped
+const cLikeTokenRegex = /\/\*[^]*?\*\/|\/\/[^\n]*|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`/g;
+const pythonTokenRegex = /#[^\n]*|[rRuU]?("""|''')[^]*?(?<!\\)\1|[bBfFrRuU]{0,2}("""|''')[^]*?(?<!\\)\2|"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'/g;
+
+const endOfProseRegex = /^(@\w|:\w[\w ]*:|>>>|(Args|Arguments|Parameters|Returns?|Raises|Yields?|Examples?|Attributes|See Also|Notes?|Todo|References):$|-{3,}$)/;
+
+interface CommentLine {
+    start: number;
+    end: number;
+}
+
+// Add a comment's lines as paragraphs, which are separated by blank lines.
+function addComment(content: string, lines: CommentLine[], builder: SourceTextBuilder, segments: ProseSegment[]) {
+    for (const line of lines) {
+        const text = content.slice(line.start, line.end);
+        if (endOfProseRegex.test(text)) {
+            break;
+        }
+        if (text === '') {
+            builder.flush(segments, 'paragraph');
+        } else {
+            builder.addBreak(line.start);
+            builder.addInline(line.start, line.end, inlineRules);
+        }
+    }
+    builder.flush(segments, 'paragraph');
+}
+
+// The lines of the comment matched by match, without the markers at its start
+// and end, or the prefix each line matches.
+function getCommentLines(match: RegExpExecArray, startMarker: RegExp, endMarker: RegExp, linePrefix: RegExp): CommentLine[] {
+    const lines = getLines(match[0]);
+    return lines.map((line, i) => {
+        let text = line.text;
+        let start = match.index + line.start;
+        if (i === lines.length - 1) {
+            text = text.replace(endMarker, '');
+        }
+        const prefix = (i === 0 ? startMarker : linePrefix).exec(text);
+        if (prefix) {
+            text = text.slice(prefix[0].length);
+            start += prefix[0].length;
+        }
+        const trimmed = text.trim();
+        start += text.indexOf(trimmed);
+        return {start, end: start + trimmed.length};
+    });
+}
+
+// /* block */ and /** doc */ comments, skipping any in strings
+export function extractBlockCommentProse(content: string): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+    cLikeTokenRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = cLikeTokenRegex.exec(content)) !== null) {
+        if (match[0].startsWith('/*')) {
+            const lines = getCommentLines(match, /^\/\*+!?/, /\*+\/$/, /^\s*\*(?!\/)/);
+            addComment(content, lines, builder, segments);
+        }
+    }
+    return segments;
+}
+
+// Python docstrings, which are strings on their own at the start of a statement
+export function extractDocstringProse(content: string): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+    pythonTokenRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pythonTokenRegex.exec(content)) !== null) {
+        const lineStart = content.lastIndexOf('\n', match.index - 1) + 1;
+        if (match[1] && content.slice(lineStart, match.index).trim() === '') {
+            const lines = getCommentLines(match, /^[rRuU]?("""|''')/, /("""|''')$/, /^/);
+            addComment(content, lines, builder, segments);
+        }
+    }
+    return segments;
+}
+
+// /* block */ and // line comments, skipping any in strings
+export function findCLikeComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    cLikeTokenRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = cLikeTokenRegex.exec(content)) !== null) {
+        const token = match[0];
+        if (token.startsWith('/*') || token.startsWith('//')) {
+            const text = token.startsWith('/*') ? token.replace(/^\/\*+/, '').replace(/\*+\/$/, '') : token.slice(2);
+            comments.push({text, start: match.index, end: match.index + token.length});
+        }
+    }
+    return comments;
+}
+
+// # comments, skipping any in strings
+export function findPythonComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    pythonTokenRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pythonTokenRegex.exec(content)) !== null) {
+        if (match[0].startsWith('#')) {
+            comments.push({text: match[0].slice(1), start: match.index, end: match.index + match[0].length});
+        }
+    }
+    return comments;
+}
@@ -0,0 +1,33 @@
+'use strict';
+// Reads the extension's settings for a document, from inside VS Code.
+
+import * as path from 'path';
+import {workspace, Uri} from 'vscode';
+
+import {Glossary, loadGlossary} from './glossary';
+import {findProjectConfig, ProjectConfig, withProjectConfig} from './projectConfig';
+import {readDocumentSettings, ReadabilitySettings} from './settings';
+
+// the .readabilityrc file that applies to the document, if there is one
+export function getProjectConfig(uri: Uri): ProjectConfig | undefined {
+    return uri.scheme === 'file' ? findProjectConfig(uri.fsPath) : undefined;
+}
+
+// Settings for the document, in the language it's written in and with its
+// front matter overrides if we have its content. A .readabilityrc file takes
+// precedence over the user's settings.
+export function getDocumentSettings(uri: Uri, content?: string): ReadabilitySettings {
+    const config = workspace.getConfiguration(undefined, uri);
+    const get = withProjectConfig(name => config.get(name), getProjectConfig(uri), uri.fsPath);
+    return readDocumentSettings(get, content || '', uri.fsPath);
+}
+
+// the folder that relative paths in settings are resolved against
+export function getSettingsBaseDir(uri: Uri): string {
+    const folder = workspace.getWorkspaceFolder(uri);
+    return folder ? folder.uri.fsPath : path.dirname(uri.fsPath);
+}
+
+export function getDocumentGlossary(uri: Uri, settings: ReadabilitySettings): Glossary {
+    return loadGlossary(settings.familiarWords, settings.glossaryFiles, getSettingsBaseDir(uri));
+}
@@ -0,0 +1,217 @@
+'use strict';
+// Formulas defined in settings, as an expression over the same counts the
+// built-in formulas use. Expressions are parsed here rather than evaluated as
+// JavaScript, since settings can come from any workspace.
+
+import {Formula} from './formulas';
+import {getLanguageForTag} from './languages';
+import {TextCounts} from './readabilityTests';
+
+// as written in the readabilityHelper.customFormulas setting
+export interface CustomFormulaDefinition {
+    id: string;
+    name?: string;
+    expression: string;
+    // 'lower-is-easier' (the default) or 'higher-is-easier'
+    direction?: string;
+    maxDifficultyScore?: number;
+    // only use the formula for documents in this language, see languages.ts
+    language?: string;
+}
+
+export interface CustomFormula extends Formula {
+    maxDifficultyScore: number;
+    // what the formula was made from, so it can be made again in a worker
+    definition: CustomFormulaDefinition;
+}
+
+type Inputs = {[name: string]: number};
+type Expression = (inputs: Inputs) => number;
+
+// the names an expression can use, and the counts they come from
+const inputNames: {[name: string]: (counts: TextCounts) => number} = {
+    sentences: counts => counts.sentences,
+    words: counts => counts.words,
+    characters: counts => counts.characters,
+    syllables: counts => counts.syllables,
+    polysyllables: counts => counts.polysyllabicWords,
+    monosyllables: counts => counts.monosyllabicWords,
+    longWords: counts => counts.longWords,
+    difficultWords: counts => counts.daleChallDifficultWords,
+    spacheDifficultWords: counts => counts.spacheDifficultWords,
+};
+
+const functions: {[name: string]: (...args: number[]) => number} = {
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    log: Math.log10,
+    ln: Math.log,
+    min: Math.min,
+    max: Math.max,
+    round: Math.round,
+};
+
+export class ExpressionError extends Error {}
+
+// own keys only, so names like "constructor" and "toString" aren't found on the prototype
+function hasName(names: Record<string, unknown>, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(names, name);
+}
+
+// Parses expressions like `0.39 * (words / sentences) + 11.8 * (syllables / words)`,
+// with + - * / ^, brackets, numbers, the input names above and a few functions.
+class ExpressionParser {
+    private tokens: string[];
+    private position = 0;
+
+    constructor(expression: string) {
+        this.tokens = expression.match(/\d*\.?\d+(?:e[-+]?\d+)?|[A-Za-z_]\w*|\S/gi) || [];
+    }
+
+    parse(): Expression {
+        if (this.tokens.length === 0) {
+            throw new ExpressionError('the expression is empty');
+        }
+        const expression = this.parseSum();
+        if (this.position < this.tokens.length) {
+            throw new ExpressionError(`unexpected "${this.tokens[this.position]}"`);
+        }
+        return expression;
+    }
+
+    private peek(): string | undefined {
+        return this.tokens[this.position];
+    }
+
+    private expect(token: string) {
+        if (this.tokens[this.position] !== token) {
+            throw new ExpressionError(`expected "${token}"`);
+        }
+        this.position++;
+    }
+
+    private parseSum(): Expression {
+        let left = this.parseProduct();
+        while (this.peek() === '+' || this.peek() === '-') {
+            const operator = this.tokens[this.position++];
+            const a = left;
+            const b = this.parseProduct();
+            left = operator === '+' ? inputs => a(inputs) + b(inputs) : inputs => a(inputs) - b(inputs);
+        }
+        return left;
+    }
+
+    private parseProduct(): Expression {
+        let left = this.parseUnary();
+        while (this.peek() === '*' || this.peek() === '/') {
+            const operator = this.tokens[this.position++];
+            const a = left;
+            const b = this.parseUnary();
+            left = operator === '*' ? inputs => a(inputs) * b(inputs) : inputs => a(inputs) / b(inputs);
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        if (this.peek() === '-') {
+            this.position++;
+            const operand = this.parseUnary();
+            return inputs => -operand(inputs);
+        }
+        if (this.peek() === '+') {
+            this.position++;
+            return this.parseUnary();
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): Expression {
+        const base = this.parseAtom();
+        if (this.peek() === '^') {
+            this.position++;
+            // right associative, so 2 ^ 3 ^ 2 is 2 ^ 9
+            const exponent = this.parseUnary();
+            return inputs => Math.pow(base(inputs), exponent(inputs));
+        }
+        return base;
+    }
+
+    private parseAtom(): Expression {
+        const token = this.tokens[this.position++];
+        if (token === undefined) {
+            throw new ExpressionError('the expression ends too soon');
+        }
+        if (token === '(') {
+            const inner = this.parseSum();
+            this.expect(')');
+            return inner;
+        }
+        if (/^[\d.]/.test(token)) {
+            const value = Number(token);
+            return () => value;
+        }
+        if (hasName(functions, token) && this.peek() === '(') {
+            this.position++;
+            const args: Expression[] = [this.parseSum()];
+            while (this.peek() === ',') {
+                this.position++;
+                args.push(this.parseSum());
+            }
+            this.expect(')');
+            const fn = functions[token];
+            return inputs => fn(...args.map(arg => arg(inputs)));
+        }
+        if (hasName(inputNames, token)) {
+            return inputs => inputs[token];
+        }
+        if (/^[A-Za-z_]/.test(token)) {
+            throw new ExpressionError(`unknown name "${token}", expected one of ${Object.keys(inputNames).join(', ')}`);
+        }
+        throw new ExpressionError(`unexpected "${token}"`);
+    }
+}
+
+export function parseExpression(expression: string): Expression {
+    return new ExpressionParser(expression).parse();
+}
+
+function getInputs(counts: TextCounts, sentences: number): Inputs {
+    const inputs: Inputs = {};
+    Object.keys(inputNames).forEach(name => {
+        inputs[name] = inputNames[name](counts);
+    });
+    inputs.sentences = sentences;
+    return inputs;
+}
+
+// Throws an ExpressionError if the definition isn't valid. Built-in formula ids
+// can't be reused.
+export function createCustomFormula(definition: CustomFormulaDefinition, builtInIds: string[]): CustomFormula {
+    if (!definition || typeof definition.id !== 'string' || !/^[a-z0-9-]+$/.test(definition.id)) {
+        throw new ExpressionError('the id must be lowercase letters, numbers and dashes');
+    }
+    if (builtInIds.includes(definition.id)) {
+        throw new ExpressionError(`"${definition.id}" is already a built-in formula`);
+    }
+    if (typeof definition.expression !== 'string') {
+        throw new ExpressionError('the expression is missing');
+    }
+    const language = definition.language ? getLanguageForTag(definition.language) : undefined;
+    if (definition.language && !language) {
+        throw new ExpressionError(`unsupported language "${definition.language}"`);
+    }
+
+    const expression = parseExpression(definition.expression);
+    return {
+        id: definition.id,
+        name: definition.name || definition.id,
+        language: language ? language.id : undefined,
+        lowerScoreIsEasier: definition.direction !== 'higher-is-easier',
+        // scored the same way as the built-in formulas: sentences are scored
+        // as one sentence, and documents have at least one
+        docScore: counts => Number(expression(getInputs(counts, Math.max(counts.sentences, 1))).toFixed(1)),
+        sentenceScore: counts => expression(getInputs(counts, 1)),
+        maxDifficultyScore: Number(definition.maxDifficultyScore) || 0,
+        definition,
+    };
+}
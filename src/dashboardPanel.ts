@@ -0,0 +1,88 @@
+'use strict';
+// A panel with every formula's score for the current document, side by side.
+
+import * as path from 'path';
+import {window, Disposable, ViewColumn, WebviewPanel} from 'vscode';
+
+import {escapeHtml} from './formatting';
+import {formatReadingTime, ReportSummary} from './summary';
+
+function renderSummary(fileName: string, summary: ReportSummary): string {
+    const rows = summary.scores.map(score => `
+        <tr class="${score.selected ? 'selected' : ''}">
+            <td>${escapeHtml(score.name)}</td>
+            <td class="number">${score.score}</td>
+            <td class="number">${score.gradeLevel !== undefined ? score.gradeLevel : ''}</td>
+            <td>${score.lowerScoreIsEasier ? 'lower is easier' : 'higher is easier'}</td>
+        </tr>`).join('');
+
+    const consensus = summary.consensusGradeLevel !== undefined
+        ? `<p class="consensus">Consensus grade level: <strong>${summary.consensusGradeLevel}</strong></p>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+        table { border-collapse: collapse; margin-bottom: 1em; }
+        th, td { padding: 4px 12px; text-align: left; border-bottom: 1px solid var(--vscode-panel-border); }
+        .number { text-align: right; }
+        .selected { font-weight: bold; }
+        .consensus { font-size: 1.2em; }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(fileName)}</h2>
+    ${consensus}
+    <table>
+        <tr><th>Formula</th><th class="number">Score</th><th class="number">Grade level</th><th></th></tr>${rows}
+    </table>
+    <table>
+        <tr><td>Words</td><td class="number">${summary.words}</td></tr>
+        <tr><td>Sentences</td><td class="number">${summary.sentences}</td></tr>
+        <tr><td>Average sentence length</td><td class="number">${summary.averageSentenceLength} words</td></tr>
+        <tr><td>Syllables per word</td><td class="number">${summary.syllablesPerWord}</td></tr>
+        <tr><td>Reading time</td><td class="number">${formatReadingTime(summary.readingMinutes)}</td></tr>
+    </table>
+</body>
+</html>`;
+}
+
+// There's only ever one dashboard, which follows the active document.
+export class DashboardPanel {
+
+    public static current?: DashboardPanel = undefined;
+
+    private _panel: WebviewPanel;
+    private _disposables: Disposable[] = [];
+
+    public static show(fileName: string, summary: ReportSummary) {
+        if (!DashboardPanel.current) {
+            // keep the focus on the document, so the panel can follow it
+            const panel = window.createWebviewPanel('readabilityHelper.dashboard', 'Readability Scores', {viewColumn: ViewColumn.Beside, preserveFocus: true}, {});
+            DashboardPanel.current = new DashboardPanel(panel);
+        } else {
+            DashboardPanel.current._panel.reveal(undefined, true);
+        }
+        DashboardPanel.current.update(fileName, summary);
+    }
+
+    private constructor(panel: WebviewPanel) {
+        this._panel = panel;
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    }
+
+    public update(fileName: string, summary: ReportSummary) {
+        this._panel.webview.html = renderSummary(path.basename(fileName), summary);
+    }
+
+    dispose() {
+        DashboardPanel.current = undefined;
+        this._panel.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+}
@@ -0,0 +1,93 @@
+'use strict';
+// A panel comparing the readability of two versions of a document, with the
+// paragraphs that changed and the scores of their sentences before and after.
+
+import * as path from 'path';
+import {window, Disposable, ViewColumn, WebviewPanel} from 'vscode';
+
+import {SentenceReport} from './analysis';
+import {escapeHtml, formatScore} from './formatting';
+import {describeChange, getChangedSentences, ParagraphChange, ReadabilityDiff} from './readabilityDiff';
+
+function renderSentences(sentences: SentenceReport[], className: string): string {
+    return sentences.map(sentence => `
+            <li class="${className}"><span class="score">${formatScore(sentence.score)}</span> ${escapeHtml(sentence.text)}</li>`).join('');
+}
+
+function renderChange(diff: ReadabilityDiff, change: ParagraphChange): string {
+    const {before, after} = change;
+    let title = '';
+    if (before && after) {
+        title = `Changed paragraph at line ${after.line}: ${formatScore(before.score)} → ${formatScore(after.score)}`;
+    } else if (after) {
+        title = `New paragraph at line ${after.line}: ${formatScore(after.score)}`;
+    } else if (before) {
+        title = `Removed paragraph at line ${before.line} in ${diff.before}: ${formatScore(before.score)}`;
+    }
+    const {removed, added} = getChangedSentences(change);
+    return `
+    <h3>${escapeHtml(title)}</h3>
+    <ul>${renderSentences(removed, 'removed')}${renderSentences(added, 'added')}
+    </ul>`;
+}
+
+function renderDiff(fileName: string, diff: ReadabilityDiff): string {
+    const changeClass = diff.easier ? 'easier' : diff.harder ? 'harder' : '';
+    const changes = diff.changes.length > 0 ? diff.changes.map(change => renderChange(diff, change)).join('') : '<p>No paragraphs changed.</p>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <style>
+        body { color: var(--vscode-foreground); font-family: var(--vscode-font-family); }
+        .change { font-size: 1.2em; }
+        .easier { color: var(--vscode-testing-iconPassed, green); }
+        .harder { color: var(--vscode-testing-iconFailed, red); }
+        ul { list-style: none; padding-left: 0; }
+        li { padding: 2px 8px; margin-bottom: 2px; }
+        li.removed { background: var(--vscode-diffEditor-removedTextBackground); }
+        li.added { background: var(--vscode-diffEditor-insertedTextBackground); }
+        .score { display: inline-block; min-width: 4em; font-weight: bold; }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(fileName)}: ${escapeHtml(diff.before)} → ${escapeHtml(diff.after)}</h2>
+    <p class="change">${escapeHtml(diff.formulaName)} score: ${formatScore(diff.beforeScore)} → ${formatScore(diff.afterScore)},
+        <strong class="${changeClass}">${escapeHtml(describeChange(diff))}</strong></p>
+    ${changes}
+</body>
+</html>`;
+}
+
+// There's only ever one comparison panel, showing the last comparison made.
+export class DiffPanel {
+
+    public static current?: DiffPanel = undefined;
+
+    private _panel: WebviewPanel;
+    private _disposables: Disposable[] = [];
+
+    public static show(fileName: string, diff: ReadabilityDiff) {
+        if (!DiffPanel.current) {
+            const panel = window.createWebviewPanel('readabilityHelper.diff', 'Readability Changes', {viewColumn: ViewColumn.Beside, preserveFocus: true}, {});
+            DiffPanel.current = new DiffPanel(panel);
+        } else {
+            DiffPanel.current._panel.reveal(undefined, true);
+        }
+        DiffPanel.current._panel.webview.html = renderDiff(path.basename(fileName), diff);
+    }
+
+    private constructor(panel: WebviewPanel) {
+        this._panel = panel;
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    }
+
+    dispose() {
+        DiffPanel.current = undefined;
+        this._panel.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+        this._disposables = [];
+    }
+}
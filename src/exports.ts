@@ -0,0 +1,195 @@
+'use strict';
+// Reports to share with people who don't use VS Code: a web page with the
+// difficult passages highlighted, Markdown for issues and wikis, and CSV with
+// one row per file for spreadsheets.
+
+import {ReadabilityReport, SentenceReport} from './analysis';
+import {escapeHtml, escapeMarkdown, formatScore, oneLine} from './formatting';
+import {locateSentence} from './reporters';
+import {formatReadingTime, ReportSummary} from './summary';
+
+export interface ExportedFile {
+    // path of the file as shown in the report, eg relative to the workspace
+    file: string;
+    content: string;
+    report: ReadabilityReport;
+    summary: ReportSummary;
+    maxScore: number;
+    passed: boolean;
+    difficultSentences: SentenceReport[];
+}
+
+export const exportFormats = ['html', 'markdown', 'csv'];
+
+// file extensions for each format
+export const exportExtensions: {[format: string]: string} = {html: 'html', markdown: 'md', csv: 'csv'};
+
+// the document's text with each difficult sentence marked, linked to from the
+// list of sentences by its id
+function highlightDocument(file: ExportedFile, fileIndex: number): string {
+    const sentences = file.difficultSentences.slice().sort((a, b) => a.start - b.start);
+    let html = '';
+    let position = 0;
+    sentences.forEach((sentence, i) => {
+        if (sentence.start < position) {
+            return;
+        }
+        html += escapeHtml(file.content.slice(position, sentence.start));
+        html += `<mark id="file${fileIndex}-sentence${i}" title="score ${formatScore(sentence.score)}">${escapeHtml(file.content.slice(sentence.start, sentence.end))}</mark>`;
+        position = sentence.end;
+    });
+    return html + escapeHtml(file.content.slice(position));
+}
+
+function formatFileHtml(file: ExportedFile, fileIndex: number): string {
+    const report = file.report;
+    const summary = file.summary;
+    const scores = summary.scores.map(score => `
+            <tr class="${score.selected ? 'selected' : ''}"><td>${escapeHtml(score.name)}</td><td class="number">${formatScore(score.score)}</td><td class="number">${score.gradeLevel !== undefined ? score.gradeLevel : ''}</td></tr>`).join('');
+    // the ids match the marks in the document, which are in document order
+    const ordered = file.difficultSentences.slice().sort((a, b) => a.start - b.start);
+    const sentences = ordered.map((sentence, i) => {
+        const location = locateSentence(file.content, sentence);
+        return `
+            <li><a href="#file${fileIndex}-sentence${i}">Line ${location.startLine}</a>, score ${formatScore(sentence.score)}: ${escapeHtml(oneLine(sentence.text))}</li>`;
+    }).join('');
+
+    return `
+    <section id="file${fileIndex}">
+        <h2>${escapeHtml(file.file)}</h2>
+        <p class="result ${file.passed ? 'passed' : 'failed'}">${escapeHtml(report.formulaName)} score: <strong>${formatScore(report.score)}</strong> (max ${file.maxScore}), ${file.passed ? 'readable' : 'too difficult'}</p>
+        <table>
+            <tr><th>Formula</th><th class="number">Score</th><th class="number">Grade level</th></tr>${scores}
+        </table>
+        <table>
+            <tr><td>Words</td><td class="number">${summary.words}</td></tr>
+            <tr><td>Sentences</td><td class="number">${summary.sentences}</td></tr>
+            <tr><td>Average sentence length</td><td class="number">${summary.averageSentenceLength} words</td></tr>
+            <tr><td>Syllables per word</td><td class="number">${summary.syllablesPerWord}</td></tr>
+            <tr><td>Reading time</td><td class="number">${formatReadingTime(summary.readingMinutes)}</td></tr>
+            <tr><td>Consensus grade level</td><td class="number">${summary.consensusGradeLevel !== undefined ? summary.consensusGradeLevel : ''}</td></tr>
+        </table>
+        <h3>Difficult sentences</h3>
+        ${sentences ? `<ul>${sentences}
+        </ul>` : '<p>None.</p>'}
+        <h3>Document</h3>
+        <pre class="document">${highlightDocument(file, fileIndex)}</pre>
+    </section>`;
+}
+
+function formatHtml(files: ExportedFile[], title: string): string {
+    const index = files.length > 1 ? `
+    <table>
+        <tr><th>File</th><th>Formula</th><th class="number">Score</th><th class="number">Max</th><th class="number">Words</th><th class="number">Difficult sentences</th></tr>${files.map((file, i) => `
+        <tr class="${file.passed ? '' : 'failed'}"><td><a href="#file${i}">${escapeHtml(file.file)}</a></td><td>${escapeHtml(file.report.formulaName)}</td><td class="number">${formatScore(file.report.score)}</td><td class="number">${file.maxScore}</td><td class="number">${file.summary.words}</td><td class="number">${file.difficultSentences.length}</td></tr>`).join('')}
+    </table>` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(title)}</title>
+    <style>
+        body { font-family: system-ui, sans-serif; max-width: 60em; margin: 2em auto; padding: 0 1em; color: #222; }
+        table { border-collapse: collapse; margin-bottom: 1em; }
+        th, td { padding: 4px 12px; text-align: left; border-bottom: 1px solid #ddd; }
+        .number { text-align: right; }
+        .selected { font-weight: bold; }
+        .passed { color: #1a7f37; }
+        .failed { color: #cf222e; }
+        .document { white-space: pre-wrap; font-family: inherit; background: #f6f8fa; padding: 1em; }
+        mark { background: #ffd8b5; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(title)}</h1>${index}${files.map(formatFileHtml).join('')}
+</body>
+</html>
+`;
+}
+
+function formatMarkdown(files: ExportedFile[], title: string): string {
+    const lines = [`# ${escapeMarkdown(title)}`, ''];
+    if (files.length > 1) {
+        lines.push('| File | Formula | Score | Max | Result | Words | Difficult sentences |');
+        lines.push('| --- | --- | --: | --: | --- | --: | --: |');
+        files.forEach(file => {
+            lines.push(`| ${escapeMarkdown(file.file)} | ${escapeMarkdown(file.report.formulaName)} | ${formatScore(file.report.score)} | ${file.maxScore} | ${file.passed ? 'ok' : 'too difficult'} | ${file.summary.words} | ${file.difficultSentences.length} |`);
+        });
+        lines.push('');
+    }
+
+    files.forEach(file => {
+        const summary = file.summary;
+        lines.push(`## ${escapeMarkdown(file.file)}`, '');
+        lines.push(`${escapeMarkdown(file.report.formulaName)} score: **${formatScore(file.report.score)}** (max ${file.maxScore}), ${file.passed ? 'readable' : 'too difficult'}`, '');
+        lines.push('| Formula | Score | Grade level |', '| --- | --: | --: |');
+        summary.scores.forEach(score => {
+            const name = score.selected ? `**${escapeMarkdown(score.name)}**` : escapeMarkdown(score.name);
+            lines.push(`| ${name} | ${formatScore(score.score)} | ${score.gradeLevel !== undefined ? score.gradeLevel : ''} |`);
+        });
+        lines.push('');
+        lines.push('| Statistic | Value |', '| --- | --: |');
+        lines.push(`| Words | ${summary.words} |`);
+        lines.push(`| Sentences | ${summary.sentences} |`);
+        lines.push(`| Average sentence length | ${summary.averageSentenceLength} words |`);
+        lines.push(`| Syllables per word | ${summary.syllablesPerWord} |`);
+        lines.push(`| Reading time | ${formatReadingTime(summary.readingMinutes)} |`);
+        if (summary.consensusGradeLevel !== undefined) {
+            lines.push(`| Consensus grade level | ${summary.consensusGradeLevel} |`);
+        }
+        lines.push('', '### Difficult sentences', '');
+        if (file.difficultSentences.length === 0) {
+            lines.push('None.');
+        }
+        file.difficultSentences.slice().sort((a, b) => a.start - b.start).forEach(sentence => {
+            const location = locateSentence(file.content, sentence);
+            lines.push(`- Line ${location.startLine}, score ${formatScore(sentence.score)}: ${oneLine(sentence.text)}`);
+        });
+        lines.push('');
+    });
+    return lines.join('\n');
+}
+
+function escapeCsv(value: string | number | boolean | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsv(files: ExportedFile[]): string {
+    // a column for each formula any of the files was scored with
+    const formulaColumns: {id: string, name: string}[] = [];
+    files.forEach(file => file.summary.scores.forEach(score => {
+        if (!formulaColumns.some(column => column.id === score.id)) {
+            formulaColumns.push({id: score.id, name: score.name});
+        }
+    }));
+
+    const header = [
+        'File', 'Formula', 'Score', 'Max score', 'Passed', 'Words', 'Sentences', 'Average sentence length',
+        'Syllables per word', 'Reading minutes', 'Consensus grade level', 'Difficult sentences',
+    ].concat(formulaColumns.map(column => column.name));
+    const rows = files.map(file => {
+        const summary = file.summary;
+        return [
+            file.file, file.report.formulaName, formatScore(file.report.score), file.maxScore, file.passed, summary.words,
+            summary.sentences, summary.averageSentenceLength, summary.syllablesPerWord, formatScore(summary.readingMinutes),
+            summary.consensusGradeLevel, file.difficultSentences.length,
+        ].concat(formulaColumns.map(column => {
+            const score = summary.scores.find(s => s.id === column.id);
+            return score ? formatScore(score.score) : undefined;
+        }));
+    });
+    return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+export function formatExport(files: ExportedFile[], format: string, title = 'Readability report'): string {
+    switch (format) {
+        case 'html':
+            return formatHtml(files, title);
+        case 'markdown':
+            return formatMarkdown(files, title);
+        default:
+            return formatCsv(files);
+    }
+}
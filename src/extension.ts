@@ -1,13 +1,37 @@
 'use strict';
 // The module 'vscode' contains the VS Code extensibility API
 // Import the necessary extensibility types to use in your code below
-import {window, workspace, commands, Disposable, languages, Uri, ExtensionContext, StatusBarAlignment, StatusBarItem, TextDocument, CommentThreadCollapsibleState, Diagnostic, DiagnosticCollection, Range, DiagnosticSeverity} from 'vscode';
-
-import * as readabilityTests from './readabilityTests';
-import {SeamFinder} from './seamFinder';
+import {window, workspace, commands, env, Disposable, languages, Uri, ExtensionContext, NotebookCellKind, NotebookDocument, StatusBarAlignment, StatusBarItem, TextDocument, TextDocumentChangeEvent, TextEditor, CommentThreadCollapsibleState, Diagnostic, DiagnosticCollection, Range, DiagnosticSeverity, ProgressLocation, DecorationOptions, ConfigurationTarget, OverviewRulerLane, QuickPickItem, ThemeColor, WorkspaceConfiguration} from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {AnalysisCache, analyzeText, describeDifficultWord, describeGlossaryEffect, findDifficultSentences, ReadabilityReport} from './analysis';
+import {BackgroundAnalysisOptions, BackgroundAnalyzer, isLongDocument} from './backgroundAnalysis';
+import {ReadabilityCodeActionProvider} from './codeActions';
+import {getDocumentGlossary, getDocumentSettings, getProjectConfig, getSettingsBaseDir} from './configuration';
+import {getFormula, getFormulasFor} from './formulas';
+import {Glossary} from './glossary';
+import {DashboardPanel} from './dashboardPanel';
+import {DiffPanel} from './diffPanel';
+import {ExportedFile, exportExtensions, formatExport} from './exports';
+import {readRevision} from './git';
+import {getHeatLevels, heatLevels, readableLevels} from './heatMap';
+import {ReadabilityHoverProvider} from './hovers';
+import {joinMarkdownCells} from './notebook';
+import {presets} from './presets';
+import {getLanguageIdForPath, getProseLanguageIds, isProseLanguage} from './prose';
+import {isIgnored} from './projectConfig';
+import {SectionOutlineProvider} from './sectionOutline';
+import {findSections} from './sections';
+import {compareScores, compareVersions, describeChange, formatChange} from './readabilityDiff';
+import {ReadabilitySettings, readSettings} from './settings';
+import {describeSummary, summarizeReport} from './summary';
+import {checkWorkspaceFile, findWorkspaceDocuments, WorkspaceFileResult, WorkspaceReportProvider} from './workspaceReport';
 
 let diagnosticCollection: DiagnosticCollection;
 let diagnosticMap: Map<string, Diagnostic[]>;
+// scores long documents without blocking the editor
+let backgroundAnalyzer: BackgroundAnalyzer;
 
 // This method is called when your extension is activated. Activation is
 // controlled by the activation events defined in package.json.
@@ -20,9 +44,13 @@ export function activate(context: ExtensionContext) {
     // Create the diagnostics (where our warnings for each document live)
     diagnosticCollection = languages.createDiagnosticCollection('ReadabilityHelper Lints');
     diagnosticMap = new Map();
+    backgroundAnalyzer = new BackgroundAnalyzer();
+    context.subscriptions.push(backgroundAnalyzer);
 
     // Create the readability check
-    const readabilityHelper = new ReadabilityHelper();
+    const sectionOutline = new SectionOutlineProvider(context.asAbsolutePath('resources'));
+    const readabilityHelper = new ReadabilityHelper(sectionOutline);
+    const workspaceReport = new WorkspaceReportProvider();
     const controller = new ReadabilityHelperController(readabilityHelper);
 
     const disposable = commands.registerCommand('readabilityHelper.checkDoc', () => {
@@ -34,19 +62,364 @@ export function activate(context: ExtensionContext) {
     context.subscriptions.push(controller);
     context.subscriptions.push(disposable);
     context.subscriptions.push(workspace.onDidCloseTextDocument(event => {
-        if (diagnosticMap.has(event.uri.toString())) {
+        // keep diagnostics from the last workspace check for files that aren't open
+        if (diagnosticMap.has(event.uri.toString()) && !workspaceReport.has(event.uri)) {
             diagnosticMap.delete(event.uri.toString());
         }
+        readabilityHelper.forgetDocument(event);
         resetDiagnostics();
     }));
+    context.subscriptions.push(workspace.onDidCloseNotebookDocument(notebook => readabilityHelper.forgetNotebook(notebook)));
+
+    context.subscriptions.push(workspaceReport);
+    context.subscriptions.push(window.registerTreeDataProvider('readabilityHelper.workspaceReport', workspaceReport));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.checkWorkspace', () => checkWorkspace(workspaceReport)));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.sortReportByScore', () => workspaceReport.sortBy('score')));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.sortReportByWords', () => workspaceReport.sortBy('words')));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.sortReportByName', () => workspaceReport.sortBy('name')));
+    context.subscriptions.push(sectionOutline);
+    context.subscriptions.push(window.registerTreeDataProvider('readabilityHelper.sectionOutline', sectionOutline));
+
+    const proseDocuments = getProseLanguageIds().map(language => ({language}));
+    context.subscriptions.push(languages.registerCodeActionsProvider(
+        proseDocuments,
+        new ReadabilityCodeActionProvider(doc => readabilityHelper.getReport(doc)),
+        {providedCodeActionKinds: ReadabilityCodeActionProvider.providedCodeActionKinds},
+    ));
+    context.subscriptions.push(languages.registerHoverProvider(
+        proseDocuments,
+        new ReadabilityHoverProvider(doc => readabilityHelper.getReport(doc)),
+    ));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.addToGlossary', async (uri: Uri, word: string) => {
+        await addToGlossary(uri, word);
+        readabilityHelper.updateReadability();
+    }));
+
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.showDashboard', () => {
+        readabilityHelper.updateReadability();
+        readabilityHelper.showDashboard();
+    }));
+    context.subscriptions.push(new Disposable(() => {
+        if (DashboardPanel.current) {
+            DashboardPanel.current.dispose();
+        }
+    }));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.exportReport', exportReport));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.compareWithHead', () => compareActiveDocument({revision: 'HEAD'})));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.compareWith', async () => {
+        const earlier = await pickEarlierVersion();
+        if (earlier) {
+            await compareActiveDocument(earlier);
+        }
+    }));
+    context.subscriptions.push(new Disposable(() => {
+        if (DiffPanel.current) {
+            DiffPanel.current.dispose();
+        }
+    }));
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.selectFormula', async () => {
+        await selectFormula();
+        readabilityHelper.updateReadability();
+    }));
+
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.toggleHeatMap', async () => {
+        const editor = window.activeTextEditor;
+        const config = workspace.getConfiguration('readabilityHelper', editor ? editor.document.uri : undefined);
+        await config.update('heatMap', !config.get<boolean>('heatMap'), getEffectiveTarget(config, 'heatMap'));
+        readabilityHelper.updateReadability();
+    }));
 
-    context.subscriptions.push(commands.registerCommand('readabilityHelper.clickStatusBar', () => {
+    context.subscriptions.push(commands.registerCommand('readabilityHelper.clickStatusBar', async () => {
+        await showStatusBarMenu();
         readabilityHelper.updateReadability();
-        //TODO: maybe set warn level here, enable/disable warnings, etc?
-        // commands.executeCommand('workbench.action.quickOpen', '> Readability Helper: ');
     }));
 }
 
+// Where a setting's current value comes from, so changing it there takes
+// effect. Settings that aren't set in the workspace are saved globally.
+function getEffectiveTarget(config: WorkspaceConfiguration, name: string): ConfigurationTarget {
+    const inspected = config.inspect(name);
+    if (inspected && inspected.workspaceFolderValue !== undefined) {
+        return ConfigurationTarget.WorkspaceFolder;
+    }
+    if (inspected && inspected.workspaceValue !== undefined) {
+        return ConfigurationTarget.Workspace;
+    }
+    return ConfigurationTarget.Global;
+}
+
+function getSeverity(severity: string): DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return DiagnosticSeverity.Error;
+        case 'warning':
+            return DiagnosticSeverity.Warning;
+        case 'hint':
+            return DiagnosticSeverity.Hint;
+        default:
+            return DiagnosticSeverity.Information;
+    }
+}
+
+function createSentenceDiagnostic(range: Range, severity: string): Diagnostic {
+    const diagnostic = new Diagnostic(range, 'This sentence is difficult to read', getSeverity(severity));
+    diagnostic.code = 'difficult-sentence';
+    return diagnostic;
+}
+
+// add a word to the first glossary file, or to the familiar words setting if
+// there are no glossary files
+async function addToGlossary(uri: Uri, word: string) {
+    const settings = getDocumentSettings(uri);
+    if (settings.glossaryFiles.length > 0) {
+        const file = path.resolve(getSettingsBaseDir(uri), settings.glossaryFiles[0]);
+        try {
+            const content = fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+            const separator = (content.length > 0 && !content.endsWith('\n')) ? '\n' : '';
+            // the file may be the first thing in a folder that doesn't exist yet
+            fs.mkdirSync(path.dirname(file), {recursive: true});
+            fs.appendFileSync(file, `${separator}${word}\n`);
+        } catch (err) {
+            window.showErrorMessage(`Couldn't add "${word}" to ${settings.glossaryFiles[0]}: ${err.message}`);
+        }
+        return;
+    }
+
+    const config = workspace.getConfiguration('readabilityHelper', uri);
+    const target = workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global;
+    await config.update('familiarWords', [...settings.familiarWords, word], target);
+}
+
+// pick from the formulas made for the language of the active document
+async function selectFormula() {
+    const editor = window.activeTextEditor;
+    if (!editor) {
+        return;
+    }
+    const doc = editor.document;
+    const settings = getDocumentSettings(doc.uri, doc.getText());
+    const items = getFormulasFor(settings.language, settings.customFormulas).map(formula => ({
+        label: formula.name,
+        description: formula.id === settings.formula ? `${formula.id} (current)` : formula.id,
+        id: formula.id,
+    }));
+    const picked = await window.showQuickPick(items, {placeHolder: 'Formula to score this document with'});
+    if (!picked) {
+        return;
+    }
+
+    const config = workspace.getConfiguration('readabilityHelper', doc.uri);
+    const target = workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global;
+    await config.update('formula', picked.id, target);
+    // the preset would otherwise keep overriding the formula
+    if (settings.preset) {
+        await config.update('preset', undefined, target);
+    }
+}
+
+// scores a version of a document the same way as the document itself
+function getVersionOptions(uri: Uri, languageId: string, settings: ReadabilitySettings): BackgroundAnalysisOptions {
+    return {
+        formula: settings.formula,
+        customFormulas: settings.customFormulas,
+        languageId,
+        language: settings.language,
+        glossary: getDocumentGlossary(uri, settings),
+    };
+}
+
+function analyzeVersion(uri: Uri, content: string, languageId: string, settings: ReadabilitySettings): Promise<ReadabilityReport> {
+    const options = getVersionOptions(uri, languageId, settings);
+    return isLongDocument(content) ? backgroundAnalyzer.analyze(content, options) : Promise.resolve(analyzeText(content, options));
+}
+
+// identifies the settings a report was made with, so we can tell when it's out of date
+function getSettingsKey(settings: ReadabilitySettings, glossary: Glossary): string {
+    return JSON.stringify([
+        settings.formula, settings.language, settings.customFormulas, glossary.key, settings.flagDifficultWords, settings.styleRules,
+    ]);
+}
+
+type EarlierVersion = {revision: string} | {uri: Uri};
+
+// a git revision, or another file
+async function pickEarlierVersion(): Promise<EarlierVersion | undefined> {
+    const picked = await window.showQuickPick([
+        {label: 'A git revision', description: 'eg HEAD~1, a branch or a tag', id: 'revision'},
+        {label: 'Another file', id: 'file'},
+    ], {placeHolder: 'Compare this document\'s readability with'});
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.id === 'revision') {
+        const revision = await window.showInputBox({prompt: 'Git revision to compare with', value: 'HEAD~1'});
+        return revision ? {revision} : undefined;
+    }
+    const uris = await window.showOpenDialog({canSelectMany: false, openLabel: 'Compare'});
+    return uris && uris.length > 0 ? {uri: uris[0]} : undefined;
+}
+
+// Compare the active document with an earlier version, scoring both with the
+// document's settings so the scores are comparable.
+async function compareActiveDocument(earlier: EarlierVersion) {
+    const editor = window.activeTextEditor;
+    if (!editor || !isProseLanguage(editor.document.languageId)) {
+        window.showInformationMessage('Open a document to compare its readability');
+        return;
+    }
+    const doc = editor.document;
+    const content = doc.getText();
+
+    let before: {label: string, content?: string, languageId: string};
+    if ('revision' in earlier) {
+        const revisionContent = doc.uri.scheme === 'file' ? await readRevision(doc.uri.fsPath, earlier.revision) : undefined;
+        before = {label: earlier.revision, content: revisionContent, languageId: doc.languageId};
+    } else {
+        const fileContent = fs.existsSync(earlier.uri.fsPath) ? fs.readFileSync(earlier.uri.fsPath, 'utf8') : undefined;
+        before = {label: workspace.asRelativePath(earlier.uri), content: fileContent, languageId: getLanguageIdForPath(earlier.uri.fsPath)};
+    }
+    if (before.content === undefined) {
+        window.showWarningMessage(`Couldn't read ${path.basename(doc.fileName)} in ${before.label}`);
+        return;
+    }
+
+    const settings = getDocumentSettings(doc.uri, content);
+    const diff = compareVersions(
+        {label: before.label, content: before.content, languageId: before.languageId, report: await analyzeVersion(doc.uri, before.content, before.languageId, settings)},
+        {label: doc.isDirty ? 'unsaved changes' : 'working copy', content, languageId: doc.languageId, report: await analyzeVersion(doc.uri, content, doc.languageId, settings)},
+        getFormula(settings.formula, settings.customFormulas),
+    );
+    DiffPanel.show(doc.fileName, diff);
+}
+
+// check each file, skipping any that can't be read
+function checkFiles(uris: Uri[], title: string): Thenable<WorkspaceFileResult[]> {
+    return window.withProgress({location: ProgressLocation.Notification, title}, async progress => {
+        const checked: WorkspaceFileResult[] = [];
+        for (const uri of uris) {
+            progress.report({message: workspace.asRelativePath(uri), increment: 100 / uris.length});
+            try {
+                checked.push(await checkWorkspaceFile(uri, backgroundAnalyzer));
+            } catch (err) {
+                console.error(`Could not check ${uri.toString()}:`, err);
+            }
+        }
+        return checked;
+    });
+}
+
+async function checkWorkspace(workspaceReport: WorkspaceReportProvider) {
+    const results = await checkFiles(await findWorkspaceDocuments(), 'Checking readability');
+
+    results.forEach(result => {
+        diagnosticMap.set(result.uri.toString(), result.difficultSentences.map(sentence => createSentenceDiagnostic(sentence.range, result.sentenceSeverity)));
+    });
+    resetDiagnostics();
+
+    workspaceReport.setResults(results);
+    commands.executeCommand('workbench.view.explorer');
+}
+
+// Write a report on the active document or the whole workspace, for people
+// who don't use VS Code.
+async function exportReport() {
+    const editor = window.activeTextEditor;
+    const doc = (editor && editor.document.uri.scheme === 'file' && isProseLanguage(editor.document.languageId)) ? editor.document : undefined;
+    const scopes = [{label: 'All documents in the workspace', id: 'workspace'}];
+    if (doc) {
+        scopes.unshift({label: `This document (${path.basename(doc.fileName)})`, id: 'document'});
+    }
+    const scope = await window.showQuickPick(scopes, {placeHolder: 'What to include in the report'});
+    if (!scope) {
+        return;
+    }
+    const format = await window.showQuickPick([
+        {label: 'HTML', description: 'a web page with the difficult sentences highlighted', id: 'html'},
+        {label: 'Markdown', description: 'for issues, pull requests and wikis', id: 'markdown'},
+        {label: 'CSV', description: 'one row per file, for spreadsheets', id: 'csv'},
+    ], {placeHolder: 'Report format'});
+    if (!format) {
+        return;
+    }
+
+    const extension = exportExtensions[format.id];
+    const name = doc && scope.id === 'document' ? `${path.parse(doc.fileName).name}-readability.${extension}` : `readability-report.${extension}`;
+    const folder = doc ? path.dirname(doc.fileName) : workspace.workspaceFolders ? workspace.workspaceFolders[0].uri.fsPath : undefined;
+    const target = await window.showSaveDialog({
+        defaultUri: folder ? Uri.file(path.join(folder, name)) : undefined,
+        filters: {[format.label]: [extension]},
+    });
+    if (!target) {
+        return;
+    }
+
+    const uris = doc && scope.id === 'document' ? [doc.uri] : await findWorkspaceDocuments();
+    const results = await checkFiles(uris, 'Exporting readability report');
+    const files: ExportedFile[] = results.map(result => ({
+        file: workspace.asRelativePath(result.uri),
+        content: result.content,
+        report: result.report,
+        summary: result.summary,
+        maxScore: result.maxScore,
+        passed: result.passed,
+        difficultSentences: result.difficultSentences.map(difficult => difficult.sentence),
+    }));
+    await fs.promises.writeFile(target.fsPath, formatExport(files, format.id));
+
+    const open = await window.showInformationMessage(`Saved the readability report to ${path.basename(target.fsPath)}`, 'Open');
+    if (open) {
+        // web pages are for the browser, where they'll be shared from
+        if (format.id === 'html') {
+            env.openExternal(target);
+        } else {
+            commands.executeCommand('vscode.open', target);
+        }
+    }
+}
+
+// Switch audience preset, turn sentence highlighting on or off, or check again.
+// Both settings are saved where selectFormula() saves the formula.
+async function showStatusBarMenu() {
+    const editor = window.activeTextEditor;
+    const uri = editor ? editor.document.uri : undefined;
+    const settings = editor ? getDocumentSettings(editor.document.uri, editor.document.getText()) : readSettings(name => workspace.getConfiguration().get(name));
+    const currentPreset = settings.preset ? settings.preset.id : undefined;
+
+    type MenuItem = QuickPickItem & {run: () => Thenable<void> | void};
+    const config = workspace.getConfiguration('readabilityHelper', uri);
+    const target = workspace.workspaceFolders ? ConfigurationTarget.Workspace : ConfigurationTarget.Global;
+    const items: MenuItem[] = [
+        {
+            label: '$(sync) Check again',
+            run: () => undefined,
+        },
+        {
+            label: settings.highlightDifficultSentences ? '$(eye-closed) Stop highlighting difficult sentences' : '$(eye) Highlight difficult sentences',
+            run: () => config.update('highlightDifficultSentences', !settings.highlightDifficultSentences, target),
+        },
+    ];
+    presets.concat(settings.customPresets).forEach(preset => {
+        items.push({
+            label: preset.name,
+            description: preset.id === currentPreset ? 'current audience' : 'audience',
+            detail: preset.description,
+            run: () => config.update('preset', preset.id, target),
+        });
+    });
+    if (currentPreset) {
+        items.push({
+            label: 'No audience preset',
+            description: 'use your own settings',
+            run: () => config.update('preset', undefined, target),
+        });
+    }
+
+    const picked = await window.showQuickPick(items, {placeHolder: 'Switch audience, or change what is highlighted'});
+    if (picked) {
+        await picked.run();
+    }
+}
+
 function resetDiagnostics() {
     diagnosticCollection.clear();
 
@@ -58,170 +431,329 @@ function resetDiagnostics() {
 class ReadabilityHelper {
 
     private _statusBarItem?: StatusBarItem = undefined;
+    private _difficultWordDecoration = window.createTextEditorDecorationType({
+        textDecoration: 'underline dotted',
+    });
+    // one shade per heat map level, easiest first. Only the difficult levels
+    // show in the overview ruler, so the hard parts stand out when scrolling
+    private _heatMapDecorations = Array.from({length: heatLevels}, (_, level) => window.createTextEditorDecorationType({
+        backgroundColor: new ThemeColor(`readabilityHelper.heatMapLevel${level + 1}`),
+        overviewRulerColor: level >= readableLevels ? new ThemeColor('readabilityHelper.heatMapOverviewRuler') : undefined,
+        overviewRulerLane: OverviewRulerLane.Right,
+    }));
+    // per-document paragraph caches, by document uri
+    private _caches: Map<string, AnalysisCache> = new Map();
+    // the last report for each document, with the version and settings it was made from
+    private _reports: Map<string, {version: number, settingsKey: string, report: ReadabilityReport}> = new Map();
+    // documents being scored in the background, which we wait for rather
+    // than asking again
+    private _analyzing: Set<string> = new Set();
+    // settings problems we've already warned about, so we only warn once
+    private _shownWarnings: Set<string> = new Set();
+    // each document's content at git HEAD, which is undefined if it isn't in git
+    private _headVersions: Map<string, {loading: boolean, content?: string}> = new Map();
+    // Reports on text other than the active document, eg at HEAD or the whole
+    // of a notebook, by a name for it. The report is undefined while a long
+    // text is scored in the background.
+    private _otherReports: Map<string, {content: string, settingsKey: string, report?: ReadabilityReport}> = new Map();
+
+    // the outline view follows the active document
+    constructor(private _sectionOutline: SectionOutlineProvider) {}
+
+    private _getCache(doc: TextDocument): AnalysisCache {
+        let cache = this._caches.get(doc.uri.toString());
+        if (!cache) {
+            cache = new AnalysisCache();
+            this._caches.set(doc.uri.toString(), cache);
+        }
+        return cache;
+    }
 
-    public updateReadability() {
+    public forgetDocument(doc: TextDocument) {
+        const key = doc.uri.toString();
+        this._caches.delete(key);
+        this._reports.delete(key);
+        this._headVersions.delete(key);
+        this._otherReports.delete(`${key}@HEAD`);
+        backgroundAnalyzer.forget(key);
+        backgroundAnalyzer.forget(`${key}@HEAD`);
+    }
+
+    public forgetNotebook(notebook: NotebookDocument) {
+        const name = this._getNotebookName(notebook);
+        this._otherReports.delete(name);
+        backgroundAnalyzer.forget(name);
+    }
+
+    // HEAD may have moved, eg after a commit, so read it again next time
+    public forgetHeadVersion(doc: TextDocument) {
+        this._headVersions.delete(doc.uri.toString());
+    }
 
-        // Create as needed
+    // The document's report at git HEAD, if we have it. It's read in the
+    // background, and the readability updated again once it has been.
+    private _getHeadReport(doc: TextDocument, settings: ReadabilitySettings): ReadabilityReport | undefined {
+        const key = doc.uri.toString();
+        const head = this._headVersions.get(key);
+        if (!head) {
+            this._headVersions.set(key, {loading: true});
+            readRevision(doc.uri.fsPath).then(content => {
+                const current = this._headVersions.get(key);
+                if (!current || !current.loading) {
+                    return;
+                }
+                // files that aren't in git, or are new since HEAD, have nothing to
+                // compare with. Keep that, so we don't keep asking git
+                this._headVersions.set(key, {loading: false, content});
+                if (content !== undefined && window.activeTextEditor && window.activeTextEditor.document === doc) {
+                    this.updateReadability();
+                }
+            });
+            return undefined;
+        }
+        if (head.content === undefined) {
+            return undefined;
+        }
+        return this._getOtherReport(`${key}@HEAD`, doc.uri, head.content, doc.languageId, settings);
+    }
+
+    private _getNotebookName(notebook: NotebookDocument): string {
+        return `${notebook.uri.toString()}#notebook`;
+    }
+
+    // The score of all of a notebook's Markdown cells together, when doc is
+    // one of them. Cells are documents of their own, scored as they're edited.
+    private _getNotebookReport(doc: TextDocument, settings: ReadabilitySettings): ReadabilityReport | undefined {
+        if (doc.uri.scheme !== 'vscode-notebook-cell') {
+            return undefined;
+        }
+        const notebook = workspace.notebookDocuments.find(nb => nb.getCells().some(cell => cell.document === doc));
+        if (!notebook) {
+            return undefined;
+        }
+        const cells = notebook.getCells().filter(cell => cell.kind === NotebookCellKind.Markup && cell.document.languageId === 'markdown');
+        // with one cell, its own score is the notebook's
+        if (cells.length < 2) {
+            return undefined;
+        }
+        const content = joinMarkdownCells(cells.map(cell => cell.document.getText()));
+        return this._getOtherReport(this._getNotebookName(notebook), doc.uri, content, 'markdown', settings);
+    }
+
+    // The report on content, scored with the settings of the document at uri,
+    // if we have it. Long content is scored in the background, and the
+    // readability updated again once it has been.
+    private _getOtherReport(name: string, uri: Uri, content: string, languageId: string, settings: ReadabilitySettings): ReadabilityReport | undefined {
+        const options = getVersionOptions(uri, languageId, settings);
+        const settingsKey = getSettingsKey(settings, options.glossary!);
+        const last = this._otherReports.get(name);
+        if (last && last.content === content && last.settingsKey === settingsKey) {
+            return last.report;
+        }
+        const entry: {content: string, settingsKey: string, report?: ReadabilityReport} = {content, settingsKey};
+        this._otherReports.set(name, entry);
+        if (!isLongDocument(content)) {
+            entry.report = analyzeText(content, options);
+            return entry.report;
+        }
+        backgroundAnalyzer.analyze(content, options, name).then(report => {
+            if (this._otherReports.get(name) === entry) {
+                entry.report = report;
+                this.updateReadability();
+            }
+        }, err => console.error(`Could not check ${name}:`, err));
+        return undefined;
+    }
+
+    // show every formula's score for the active document
+    public showDashboard() {
+        const editor = window.activeTextEditor;
+        const report = editor && this.getReport(editor.document);
+        if (!editor || !report) {
+            window.showInformationMessage('Open a document to see its readability scores');
+            return;
+        }
+        const settings = getDocumentSettings(editor.document.uri, editor.document.getText());
+        DashboardPanel.show(editor.document.fileName, summarizeReport(report, settings.customFormulas));
+    }
+
+    // the last report for the document, if it's still up to date
+    public getReport(doc: TextDocument): ReadabilityReport | undefined {
+        const last = this._reports.get(doc.uri.toString());
+        return (last && last.version === doc.version) ? last.report : undefined;
+    }
+
+    // Create as needed
+    private _getStatusBarItem(): StatusBarItem {
         if (!this._statusBarItem) {
             this._statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
             this._statusBarItem.command = 'readabilityHelper.clickStatusBar';
         }
+        return this._statusBarItem;
+    }
+
+    public updateReadability() {
+        const statusBarItem = this._getStatusBarItem();
 
         // Get the current text editor
         const editor = window.activeTextEditor;
         if (!editor) {
-            this._statusBarItem.hide();
+            statusBarItem.hide();
+            this._sectionOutline.clear();
             return;
         }
 
         const doc = editor.document;
 
-        // Only update status if a Markdown or plaintext file
-        if ((doc.languageId === 'markdown') || (doc.languageId === 'plaintext')) {
-            const config = workspace.getConfiguration();
-            const configuredFormula = config.get<string>('readabilityHelper.formula');
-
-            const highlightDifficultSentences = config.get<boolean>('readabilityHelper.highlightDifficultSentences') || false;
-            const maxDifficultyScoreName = `readabilityHelper.maxDifficultyScore.${configuredFormula}`;
-            const maxDifficultyScore: number = config.get<number>(maxDifficultyScoreName) || 0;
-
-            let formula = 'Readability';
-            let readability = 0;
-
-            // eslint-disable-next-line @typescript-eslint/no-var-requires
-            const removeMd = require('remove-markdown');
-            const rawDocContent = doc.getText();
-            const docContent: string = removeMd(rawDocContent);
-
-            // select formula and readability function
-            let sentenceFunction = readabilityTests.getAutomatedReadabilitySentence;
-            let docFunction = readabilityTests.getAutomatedReadabilityDoc;
-            // this controls how we compare scores to the configured max ones
-            let lowerScoreIsEasier = true;
-
-            switch (configuredFormula) {
-                case 'flesch':
-                    formula = 'Flesch Reading Ease';
-                    sentenceFunction = readabilityTests.getFleschSentence;
-                    docFunction = readabilityTests.getFleschDoc;
-                    lowerScoreIsEasier = false;
-                    break;
-                case 'flesch-kincaid':
-                    formula = 'Flesch-Kincaid Grade Level';
-                    sentenceFunction = readabilityTests.getFleschKincaidSentence;
-                    docFunction = readabilityTests.getFleschKincaidDoc;
-                    break;
-                case 'coleman-liau':
-                    formula = 'Coleman-Liau Index';
-                    sentenceFunction = readabilityTests.getColemanLiauSentence;
-                    docFunction = readabilityTests.getColemanLiauDoc;
-                    break;
-                case 'dale-chall':
-                    formula = 'Dale-Chall Readability';
-                    sentenceFunction = readabilityTests.getDaleChallSentence;
-                    docFunction = readabilityTests.getDaleChallDoc;
-                    break;
-                case 'smog':
-                    formula = 'SMOG Formula';
-                    sentenceFunction = readabilityTests.getSMOGSentence;
-                    docFunction = readabilityTests.getSMOGDoc;
-                    break;
-                case 'spache':
-                    formula = 'Spache Readability';
-                    sentenceFunction = readabilityTests.getSpacheSentence;
-                    docFunction = readabilityTests.getSpacheDoc;
-                    break;
-                default:
-                    formula = 'Automated Readability';
-                    sentenceFunction = readabilityTests.getAutomatedReadabilitySentence;
-                    docFunction = readabilityTests.getAutomatedReadabilityDoc;
-                    break;
+        // files ignored by a .readabilityrc file aren't checked at all
+        const projectConfig = getProjectConfig(doc.uri);
+        const ignored = isIgnored(projectConfig, doc.uri.fsPath);
+
+        // Only update status for languages we can read the prose in
+        if (isProseLanguage(doc.languageId) && !ignored) {
+            const content = doc.getText();
+            const settings = getDocumentSettings(doc.uri, content);
+            const errors = settings.customFormulaErrors.concat(settings.customPresetErrors, projectConfig ? projectConfig.errors : []);
+            errors.filter(error => !this._shownWarnings.has(error)).forEach(error => {
+                this._shownWarnings.add(error);
+                window.showWarningMessage(error);
+            });
+
+            const glossary = getDocumentGlossary(doc.uri, settings);
+            const settingsKey = getSettingsKey(settings, glossary);
+            const options: BackgroundAnalysisOptions = {
+                formula: settings.formula,
+                customFormulas: settings.customFormulas,
+                languageId: doc.languageId,
+                language: settings.language,
+                findDifficultWords: settings.flagDifficultWords !== 'off',
+                glossary,
+                styleRules: settings.styleRules,
+            };
+
+            const last = this._reports.get(doc.uri.toString());
+            if (!isLongDocument(content)) {
+                const report = analyzeText(content, {...options, cache: this._getCache(doc)});
+                this._reports.set(doc.uri.toString(), {version: doc.version, settingsKey, report});
+                this._showReport(editor, content, settings, report);
+            } else if (last && last.version === doc.version && last.settingsKey === settingsKey) {
+                this._showReport(editor, content, settings, last.report);
+            } else {
+                this._analyzeInBackground(doc, content, options, settingsKey);
             }
+        } else {
+            statusBarItem.hide();
+            this._sectionOutline.clear();
+            if (ignored) {
+                diagnosticMap.delete(doc.uri.toString());
+                resetDiagnostics();
+                editor.setDecorations(this._difficultWordDecoration, []);
+                this._heatMapDecorations.forEach(decoration => editor.setDecorations(decoration, []));
+            }
+        }
+    }
 
-            // fix doc and sentence functions
-            docFunction = docFunction.bind(this);
-            sentenceFunction = sentenceFunction.bind(this);
-
-            readability = docFunction(docContent);
-
-            // should we warn for difficult sentences?
-            let shouldWarn = false;
-            if (highlightDifficultSentences) {
-                if (lowerScoreIsEasier) {
-                    shouldWarn = readability > maxDifficultyScore;
-                } else {
-                    shouldWarn = readability < maxDifficultyScore;
-                }
+    // Score a long document in the worker, then update the readability again
+    // to show it. Edits made meanwhile are scored once it's done.
+    private _analyzeInBackground(doc: TextDocument, content: string, options: BackgroundAnalysisOptions, settingsKey: string) {
+        const key = doc.uri.toString();
+        if (this._analyzing.has(key)) {
+            return;
+        }
+        this._analyzing.add(key);
+        const version = doc.version;
+        backgroundAnalyzer.analyze(content, options, key).then(report => {
+            this._analyzing.delete(key);
+            if (doc.isClosed) {
+                return;
+            }
+            this._reports.set(key, {version, settingsKey, report});
+            if (window.activeTextEditor && window.activeTextEditor.document === doc) {
+                this.updateReadability();
             }
+        }, err => {
+            this._analyzing.delete(key);
+            console.error(`Could not check ${key}:`, err);
+        });
+    }
 
-            // let's figure out the most difficult ones
-            const diagnostics: Diagnostic[] = [];
-            if (shouldWarn) {
-                console.log("This document isn't very readable ;-;");
-
-                // difficulty score : sentence
-                const sentencesByDifficulty: [number, string][] = [];
-
-                // lazy splitting into sentences
-                const sentences: string[] = docContent.match(/([^.!?]+[.!?]+)|([^.!?]+$)/g) || [];
-
-                sentences.forEach(sentence => {
-                    sentence = sentence.trim();
-                    const score = sentenceFunction(sentence);
-                    // const score = sentence.length;
-                    sentencesByDifficulty.push([score, sentence]);
-
-                    // sort by most difficult to least
-                    if (lowerScoreIsEasier) {
-                        sentencesByDifficulty.sort((a, b) => b[0] - a[0]);
-                    } else {
-                        sentencesByDifficulty.sort((a, b) => a[0] - b[0]);
-                    }
-                    // only keep 3 most difficult sentences
-                    while (sentencesByDifficulty.length > 3) {
-                        sentencesByDifficulty.pop();
-                    }
-                });
-
-                const cleanedWarnIndexes: [number, number][] = [];
-
-                sentencesByDifficulty.forEach(data => {
-                    const sentence = data[1];
-                    let index = docContent.indexOf(sentence);
-                    // find and mark repeated instances of the same sentence
-                    while (index != -1) {
-                        cleanedWarnIndexes.push([index, sentence.length]);
-                        index = docContent.indexOf(sentence, index+sentence.length);
-                    }
-                });
-                cleanedWarnIndexes.sort((a, b) => a[0] - b[0]);
-
-                // convert cleaned warn indexes to real ones
-                const sf = new SeamFinder(rawDocContent, docContent);
-
-                // add warnings for each set of indexes
-                cleanedWarnIndexes.forEach(indexSet => {
-                    const realIndexes = sf.lookup(indexSet[0], indexSet[1]);
-                    const start = doc.positionAt(realIndexes.start);
-                    const end = doc.positionAt(realIndexes.start + realIndexes.length);
-                    diagnostics.push(new Diagnostic(new Range(start, end), 'This sentence is difficult to read', DiagnosticSeverity.Warning));
-                });
+    // show the report on the editor's document in the editor, the status bar and the views
+    private _showReport(editor: TextEditor, content: string, settings: ReadabilitySettings, report: ReadabilityReport) {
+        const doc = editor.document;
+        const formula = getFormula(report.formula, settings.customFormulas);
+
+        const diagnostics: Diagnostic[] = [];
+        findDifficultSentences(report, settings).forEach(sentence => {
+            const start = doc.positionAt(sentence.start);
+            const end = doc.positionAt(sentence.end);
+            diagnostics.push(createSentenceDiagnostic(new Range(start, end), settings.sentenceSeverity));
+        });
+
+        // mark the words that make the text harder, up to the configured limit
+        const difficultWords = report.difficultWords.slice(0, settings.maxFlaggedWords);
+        const wordDecorations: DecorationOptions[] = [];
+        difficultWords.forEach(word => {
+            const range = new Range(doc.positionAt(word.start), doc.positionAt(word.end));
+            if (settings.flagDifficultWords === 'diagnostics') {
+                const diagnostic = new Diagnostic(range, describeDifficultWord(word), DiagnosticSeverity.Information);
+                diagnostic.code = 'difficult-word';
+                diagnostics.push(diagnostic);
+            } else {
+                wordDecorations.push({range, hoverMessage: describeDifficultWord(word)});
             }
-            diagnosticMap.set(doc.uri.toString(), diagnostics);
-            resetDiagnostics();
+        });
+        editor.setDecorations(this._difficultWordDecoration, wordDecorations);
+
+        // shade every sentence by how hard it is, if the heat map is on
+        const heatMapDecorations: DecorationOptions[][] = this._heatMapDecorations.map(() => []);
+        if (settings.heatMap) {
+            const levels = getHeatLevels(report.sentences, formula, settings.maxSentenceScore);
+            report.sentences.forEach((sentence, i) => {
+                heatMapDecorations[levels[i]].push({range: new Range(doc.positionAt(sentence.start), doc.positionAt(sentence.end))});
+            });
+        }
+        this._heatMapDecorations.forEach((decoration, level) => editor.setDecorations(decoration, heatMapDecorations[level]));
 
-            // Update the status bar
-            this._statusBarItem.text = `${formula} score: ${readability}`;
-            this._statusBarItem.show();
-        } else {
-            this._statusBarItem.hide();
+        // style rule diagnostics use the rule id as their code, so they can be filtered
+        report.styleIssues.forEach(issue => {
+            const range = new Range(doc.positionAt(issue.start), doc.positionAt(issue.end));
+            const diagnostic = new Diagnostic(range, issue.message, getSeverity(settings.ruleSeverities[issue.rule]));
+            diagnostic.code = issue.rule;
+            diagnostics.push(diagnostic);
+        });
+
+        diagnosticMap.set(doc.uri.toString(), diagnostics);
+        resetDiagnostics();
+
+        // Update the status bar, and the dashboard if it's open
+        const summary = summarizeReport(report, settings.customFormulas);
+        const glossaryEffect = describeGlossaryEffect(report);
+        const showHeadChange = doc.uri.scheme === 'file' && workspace.getConfiguration('readabilityHelper', doc.uri).get<boolean>('compareWithHead');
+        const headReport = showHeadChange ? this._getHeadReport(doc, settings) : undefined;
+        const headChange = headReport ? compareScores(headReport, report) : undefined;
+        const headDelta = headChange ? formatChange(headChange) : '';
+        const notebookReport = this._getNotebookReport(doc, settings);
+        const statusBarItem = this._getStatusBarItem();
+        statusBarItem.text = `${report.formulaName} score: ${report.score}` + (headDelta ? ` (${headDelta} since HEAD)` : '') +
+            (notebookReport ? ` (notebook: ${notebookReport.score})` : '');
+        const audience = settings.preset ? `\nAudience: ${settings.preset.name}` : '';
+        const sinceHead = headChange ? `\nSince HEAD: ${describeChange(headChange)}` : '';
+        const wholeNotebook = notebookReport ? `\nWhole notebook: ${notebookReport.score} over ${notebookReport.statistics.words} words` : '';
+        statusBarItem.tooltip = describeSummary(summary) + (glossaryEffect ? `\n${glossaryEffect}` : '') + audience + sinceHead + wholeNotebook;
+        statusBarItem.show();
+        if (DashboardPanel.current) {
+            DashboardPanel.current.update(doc.fileName, summary);
         }
+
+        this._sectionOutline.setDocument(doc, findSections(report, formula, content.length), formula, settings.maxDifficultyScore);
     }
 
     dispose() {
         if (this._statusBarItem) {
             this._statusBarItem.dispose();
         }
+        this._difficultWordDecoration.dispose();
+        this._heatMapDecorations.forEach(decoration => decoration.dispose());
     }
 }
 
@@ -229,27 +761,65 @@ class ReadabilityHelperController {
 
     private _readabilityHelper: ReadabilityHelper;
     private _disposable: Disposable;
+    private _pendingUpdate?: NodeJS.Timeout = undefined;
 
     constructor(readabilityHelper: ReadabilityHelper) {
         this._readabilityHelper = readabilityHelper;
 
-        // Update the readability counter when the file is opened or saved
+        // Update the readability counter when the file is opened or saved, or
+        // when we switch to another file
         const subscriptions: Disposable[] = [];
+        // saving or switching back to a file may follow a commit
+        workspace.onDidSaveTextDocument(doc => this._readabilityHelper.forgetHeadVersion(doc), this, subscriptions);
+        window.onDidChangeActiveTextEditor(editor => editor && this._readabilityHelper.forgetHeadVersion(editor.document), this, subscriptions);
         workspace.onDidOpenTextDocument(this._onEvent, this, subscriptions);
         workspace.onDidSaveTextDocument(this._onEvent, this, subscriptions);
+        window.onDidChangeActiveTextEditor(this._onEvent, this, subscriptions);
+
+        // Update it as we type, after a short delay
+        workspace.onDidChangeTextDocument(this._onChange, this, subscriptions);
 
         // Update the counter for the current file
         this._readabilityHelper.updateReadability();
 
-        // Create a combined disposable from both event subscriptions
+        // Create a combined disposable from all event subscriptions
         this._disposable = Disposable.from(...subscriptions);
     }
 
     dispose() {
+        this._cancelPendingUpdate();
         this._disposable.dispose();
     }
 
+    private _cancelPendingUpdate() {
+        if (this._pendingUpdate) {
+            clearTimeout(this._pendingUpdate);
+            this._pendingUpdate = undefined;
+        }
+    }
+
     private _onEvent() {
+        this._cancelPendingUpdate();
         this._readabilityHelper.updateReadability();
     }
+
+    private _onChange(event: TextDocumentChangeEvent) {
+        // we only show the score for the active editor, so ignore other changes
+        const editor = window.activeTextEditor;
+        if (!editor || editor.document !== event.document) {
+            return;
+        }
+
+        const config = workspace.getConfiguration('readabilityHelper', event.document.uri);
+        if (!config.get<boolean>('checkWhileTyping')) {
+            return;
+        }
+        const delay = config.get<number>('checkWhileTypingDelay') || 0;
+
+        this._cancelPendingUpdate();
+        this._pendingUpdate = setTimeout(() => {
+            this._pendingUpdate = undefined;
+            this._readabilityHelper.updateReadability();
+        }, delay);
+    }
 }
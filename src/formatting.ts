@@ -0,0 +1,23 @@
+'use strict';
+// Helpers shared by the reports and panels that show scores and text.
+
+// scores to one decimal place, without a trailing .0
+export function formatScore(score: number): string {
+    return String(Number(score.toFixed(1)));
+}
+
+// text on a single line, eg for a table cell
+export function oneLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+// for text in HTML and XML, including attribute values
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// for text in a Markdown heading, paragraph or table cell, so file names and
+// formula names are shown as they are
+export function escapeMarkdown(text: string): string {
+    return oneLine(text).replace(/[\\`*_[\]<>#|]/g, '\\$&');
+}
@@ -0,0 +1,237 @@
+'use strict';
+
+import * as readabilityTests from './readabilityTests';
+import {DifficultWordReason, TextCounts} from './readabilityTests';
+
+export interface Formula {
+    id: string;
+    name: string;
+    // the language the formula was made for, see languages.ts, or undefined
+    // if it can be used for any language
+    language?: string;
+    // this controls how we compare scores to the configured max ones
+    lowerScoreIsEasier: boolean;
+    docScore: (counts: TextCounts) => number;
+    sentenceScore: (counts: TextCounts) => number;
+    // the kind of word that makes text harder under this formula, if any
+    difficultWords?: DifficultWordReason;
+    // converts a score to an approximate grade level, if the formula has one
+    gradeLevel?: (score: number) => number;
+}
+
+const asGradeLevel = (score: number) => score;
+
+// Flesch Reading Ease and its adaptations for other languages share one scale
+function fleschToGradeLevel(score: number): number {
+    if (score >= 90) {
+        return 5;
+    } else if (score >= 80) {
+        return 6;
+    } else if (score >= 70) {
+        return 7;
+    } else if (score >= 60) {
+        return 8.5;
+    } else if (score >= 50) {
+        return 11;
+    } else if (score >= 30) {
+        return 14;
+    }
+    return 17;
+}
+
+function daleChallToGradeLevel(score: number): number {
+    if (score < 5) {
+        return 4;
+    } else if (score < 6) {
+        return 5.5;
+    } else if (score < 7) {
+        return 7.5;
+    } else if (score < 8) {
+        return 9.5;
+    } else if (score < 9) {
+        return 11.5;
+    } else if (score < 10) {
+        return 14;
+    }
+    return 16;
+}
+
+// Gulpease only says which school level finds a text difficult
+function gulpeaseToGradeLevel(score: number): number {
+    if (score >= 80) {
+        return 5;
+    } else if (score >= 60) {
+        return 8;
+    } else if (score >= 40) {
+        return 12;
+    }
+    return 16;
+}
+
+// used when the configured formula is unset or unknown
+export const defaultFormulaId = 'automated-readability';
+
+export const formulas: Formula[] = [
+    {
+        id: 'automated-readability',
+        name: 'Automated Readability',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getAutomatedReadabilityDocFromCounts,
+        sentenceScore: readabilityTests.getAutomatedReadabilitySentenceFromCounts,
+        gradeLevel: asGradeLevel,
+    },
+    {
+        id: 'coleman-liau',
+        name: 'Coleman-Liau Index',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getColemanLiauDocFromCounts,
+        sentenceScore: readabilityTests.getColemanLiauSentenceFromCounts,
+        gradeLevel: asGradeLevel,
+    },
+    {
+        id: 'dale-chall',
+        name: 'Dale-Chall Readability',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getDaleChallDocFromCounts,
+        sentenceScore: readabilityTests.getDaleChallSentenceFromCounts,
+        difficultWords: 'dale-chall',
+        gradeLevel: daleChallToGradeLevel,
+    },
+    {
+        id: 'flesch',
+        name: 'Flesch Reading Ease',
+        language: 'en',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getFleschDocFromCounts,
+        sentenceScore: readabilityTests.getFleschSentenceFromCounts,
+        gradeLevel: fleschToGradeLevel,
+    },
+    {
+        id: 'flesch-kincaid',
+        name: 'Flesch-Kincaid Grade Level',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getFleschKincaidDocFromCounts,
+        sentenceScore: readabilityTests.getFleschKincaidSentenceFromCounts,
+        gradeLevel: asGradeLevel,
+    },
+    {
+        id: 'smog',
+        name: 'SMOG Formula',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getSMOGDocFromCounts,
+        sentenceScore: readabilityTests.getSMOGSentenceFromCounts,
+        difficultWords: 'polysyllabic',
+        gradeLevel: asGradeLevel,
+    },
+    {
+        id: 'spache',
+        name: 'Spache Readability',
+        language: 'en',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getSpacheDocFromCounts,
+        sentenceScore: readabilityTests.getSpacheSentenceFromCounts,
+        difficultWords: 'spache',
+        // no gradeLevel, since Spache only works up to fourth grade and would
+        // pull the consensus grade down for anything else
+    },
+    {
+        id: 'fernandez-huerta',
+        name: 'Fernández Huerta',
+        language: 'es',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getFernandezHuertaDocFromCounts,
+        sentenceScore: readabilityTests.getFernandezHuertaSentenceFromCounts,
+        gradeLevel: fleschToGradeLevel,
+    },
+    {
+        id: 'szigriszt-pazos',
+        name: 'Szigriszt-Pazos Perspicuity',
+        language: 'es',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getSzigrisztPazosDocFromCounts,
+        sentenceScore: readabilityTests.getSzigrisztPazosSentenceFromCounts,
+        gradeLevel: fleschToGradeLevel,
+    },
+    {
+        id: 'amstad',
+        name: 'Amstad Reading Ease',
+        language: 'de',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getAmstadDocFromCounts,
+        sentenceScore: readabilityTests.getAmstadSentenceFromCounts,
+        gradeLevel: fleschToGradeLevel,
+    },
+    {
+        id: 'wiener-sachtextformel',
+        name: 'Wiener Sachtextformel',
+        language: 'de',
+        lowerScoreIsEasier: true,
+        docScore: readabilityTests.getWienerSachtextformelDocFromCounts,
+        sentenceScore: readabilityTests.getWienerSachtextformelSentenceFromCounts,
+        gradeLevel: asGradeLevel,
+    },
+    {
+        id: 'kandel-moles',
+        name: 'Kandel-Moles',
+        language: 'fr',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getKandelMolesDocFromCounts,
+        sentenceScore: readabilityTests.getKandelMolesSentenceFromCounts,
+        gradeLevel: fleschToGradeLevel,
+    },
+    {
+        id: 'gulpease',
+        name: 'Gulpease Index',
+        language: 'it',
+        lowerScoreIsEasier: false,
+        docScore: readabilityTests.getGulpeaseDocFromCounts,
+        sentenceScore: readabilityTests.getGulpeaseSentenceFromCounts,
+        gradeLevel: gulpeaseToGradeLevel,
+    },
+];
+
+// customFormulas are the formulas from settings, if any
+export function getFormula(id?: string, customFormulas: Formula[] = []): Formula {
+    const formula = formulas.find(f => f.id === id) || customFormulas.find(f => f.id === id);
+    if (formula) {
+        return formula;
+    }
+    return formulas.find(f => f.id === defaultFormulaId)!;
+}
+
+// used for documents in each language when the configured formula is for another language
+const languageDefaultFormulaIds: {[language: string]: string} = {
+    'en': defaultFormulaId,
+    'es': 'fernandez-huerta',
+    'de': 'amstad',
+    'fr': 'kandel-moles',
+    'it': 'gulpease',
+};
+
+export function getFormulasFor(language: string, customFormulas: Formula[] = []): Formula[] {
+    return formulas.concat(customFormulas).filter(f => f.language === undefined || f.language === language);
+}
+
+// the formula with the given id if it can be used for the language, otherwise
+// the language's default formula
+export function getFormulaFor(id: string | undefined, language: string, customFormulas: Formula[] = []): Formula {
+    const formula = getFormula(id, customFormulas);
+    if (formula.id === id && (formula.language === undefined || formula.language === language)) {
+        return formula;
+    }
+    return getFormula(languageDefaultFormulaIds[language]);
+}
+
+// returns true if the given score is harder to read than the max score. Reports
+// say which way their formula goes too, so they can be passed instead
+export function isHarderThan(formula: Pick<Formula, 'lowerScoreIsEasier'>, score: number, maxScore: number): boolean {
+    if (formula.lowerScoreIsEasier) {
+        return score > maxScore;
+    }
+    return score < maxScore;
+}
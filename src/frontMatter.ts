@@ -0,0 +1,22 @@
+'use strict';
+// Reads simple `key: value` lines from a document's YAML front matter. Nested
+// values and lists aren't needed for anything we read, so they're ignored.
+
+export type FrontMatter = {[key: string]: string};
+
+export function readFrontMatter(content: string): FrontMatter {
+    const values: FrontMatter = {};
+    const frontMatter = /^---\r?\n([^]*?)\r?\n(---|\.\.\.)\s*(\r?\n|$)/.exec(content);
+    if (!frontMatter) {
+        return values;
+    }
+
+    const lineRegex = /^([\w-]+):[^\S\r\n]*["']?(.*?)["']?[^\S\r\n]*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = lineRegex.exec(frontMatter[1])) !== null) {
+        if (match[2].length > 0 && !Object.prototype.hasOwnProperty.call(values, match[1])) {
+            values[match[1]] = match[2];
+        }
+    }
+    return values;
+}
@@ -0,0 +1,47 @@
+'use strict';
+// Reading earlier versions of a file from its local git repository.
+
+import * as childProcess from 'child_process';
+import * as path from 'path';
+
+// git show with a path starting ./ reads it relative to the working folder, so
+// we don't need to know where the repository's root is. Revisions are typed in
+// by the user, so ones that git would read as an option aren't run at all
+function getShowCommand(filePath: string, revision: string): {args: string[], cwd: string} | undefined {
+    if (revision.startsWith('-')) {
+        return undefined;
+    }
+    const absolutePath = path.resolve(filePath);
+    return {
+        args: ['show', `${revision}:./${path.basename(absolutePath)}`],
+        cwd: path.dirname(absolutePath),
+    };
+}
+
+// The file's content at the revision, or undefined if it isn't in a git
+// repository, didn't exist at that revision, or the revision isn't valid.
+export function readRevision(filePath: string, revision = 'HEAD'): Promise<string | undefined> {
+    const command = getShowCommand(filePath, revision);
+    if (!command) {
+        return Promise.resolve(undefined);
+    }
+    const {args, cwd} = command;
+    return new Promise(resolve => {
+        childProcess.execFile('git', args, {cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024}, (err, stdout) => {
+            resolve(err ? undefined : stdout);
+        });
+    });
+}
+
+export function readRevisionSync(filePath: string, revision = 'HEAD'): string | undefined {
+    const command = getShowCommand(filePath, revision);
+    if (!command) {
+        return undefined;
+    }
+    const {args, cwd} = command;
+    try {
+        return childProcess.execFileSync('git', args, {cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'ignore']});
+    } catch (err) {
+        return undefined;
+    }
+}
@@ -0,0 +1,98 @@
+'use strict';
+// Extra familiar words, on top of the Dale-Chall and Spache lists. These come
+// from the readabilityHelper.familiarWords setting and from glossary files.
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// the forms a word may have been inflected from, eg 'dashboards' -> 'dashboard'
+function getBaseForms(word: string): string[] {
+    const forms = [word];
+    const addStem = (suffix: string, ...endings: string[]) => {
+        if (word.length > suffix.length + 1 && word.endsWith(suffix)) {
+            const stem = word.slice(0, -suffix.length);
+            endings.forEach(ending => forms.push(stem + ending));
+            // doubled consonants, eg 'planned' -> 'plan'
+            if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) {
+                forms.push(stem.slice(0, -1));
+            }
+        }
+    };
+
+    addStem('ies', 'y');
+    addStem('es', '');
+    addStem('s', '');
+    addStem('ied', 'y');
+    addStem('ed', '', 'e');
+    addStem('ing', '', 'e');
+
+    return forms;
+}
+
+export class Glossary {
+    private words = new Set<string>();
+
+    // identifies the words in this glossary, so caches can tell when it changes
+    public readonly key: string;
+
+    constructor(words: string[]) {
+        words.forEach(word => {
+            const normalized = word.trim().toLowerCase();
+            if (normalized.length > 0) {
+                this.words.add(normalized);
+            }
+        });
+        this.key = Array.from(this.words).sort().join('\n');
+    }
+
+    get size(): number {
+        return this.words.size;
+    }
+
+    getWords(): string[] {
+        return Array.from(this.words);
+    }
+
+    // case-insensitive, and also matches plurals, -ed and -ing forms
+    has(word: string): boolean {
+        return getBaseForms(word.toLowerCase()).some(form => this.words.has(form));
+    }
+}
+
+// One word per line. Blank lines and lines starting with # are ignored.
+export function parseGlossary(content: string): string[] {
+    return content.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+// glossary files are re-read only when they change
+const glossaryFileCache = new Map<string, {mtime: number, words: string[]}>();
+
+function readGlossaryFile(filePath: string): string[] {
+    let mtime: number;
+    try {
+        mtime = fs.statSync(filePath).mtimeMs;
+    } catch (err) {
+        // missing glossary files are fine, they just don't add any words
+        glossaryFileCache.delete(filePath);
+        return [];
+    }
+
+    const cached = glossaryFileCache.get(filePath);
+    if (cached && cached.mtime === mtime) {
+        return cached.words;
+    }
+    const words = parseGlossary(fs.readFileSync(filePath, 'utf8'));
+    glossaryFileCache.set(filePath, {mtime, words});
+    return words;
+}
+
+// combine familiar words with those in glossary files, which are relative to baseDir
+export function loadGlossary(familiarWords: string[], glossaryFiles: string[], baseDir: string): Glossary {
+    let words = familiarWords.slice();
+    glossaryFiles.forEach(file => {
+        words = words.concat(readGlossaryFile(path.resolve(baseDir, file)));
+    });
+    return new Glossary(words);
+}
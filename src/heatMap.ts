@@ -0,0 +1,36 @@
+'use strict';
+// Shades for a heat map of sentence difficulty, from easiest to hardest.
+
+import {SentenceReport} from './analysis';
+import {Formula, isHarderThan} from './formulas';
+
+// the first few levels are for sentences within the max sentence score, and
+// the rest for sentences harder than it
+export const readableLevels = 3;
+export const difficultLevels = 2;
+export const heatLevels = readableLevels + difficultLevels;
+
+// How hard a score is compared to the max sentence score: 0 for the easiest,
+// 1 at the max and 2 for twice as hard. Scores that are higher when easier,
+// like Flesch Reading Ease, are mirrored around the max.
+function getRelativeDifficulty(score: number, formula: Formula, maxSentenceScore: number): number {
+    if (maxSentenceScore === 0) {
+        return isHarderThan(formula, score, maxSentenceScore) ? 2 : 0;
+    }
+    const ratio = score / maxSentenceScore;
+    return Math.max(formula.lowerScoreIsEasier ? ratio : 2 - ratio, 0);
+}
+
+// Returns the heat map level of each sentence, from 0 for the easiest to
+// heatLevels - 1 for the hardest, by where its score sits between the easiest
+// scores and the max sentence score, or past it. Only sentences harder than the
+// max get the difficult levels, so an easy document never looks hot.
+export function getHeatLevels(sentences: SentenceReport[], formula: Formula, maxSentenceScore: number): number[] {
+    return sentences.map(sentence => {
+        const difficulty = getRelativeDifficulty(sentence.score, formula, maxSentenceScore);
+        if (!isHarderThan(formula, sentence.score, maxSentenceScore)) {
+            return Math.min(Math.floor(difficulty * readableLevels), readableLevels - 1);
+        }
+        return readableLevels + Math.min(Math.floor(Math.max(difficulty - 1, 0) * difficultLevels), difficultLevels - 1);
+    });
+}
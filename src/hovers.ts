@@ -0,0 +1,50 @@
+'use strict';
+// Hovers that explain why a sentence got its score.
+
+import {CancellationToken, Hover, HoverProvider, MarkdownString, Position, Range, TextDocument, workspace} from 'vscode';
+
+import {findDifficultSentences, ReadabilityReport} from './analysis';
+import {getDocumentSettings} from './configuration';
+import {formatScore} from './formatting';
+import {getFormula} from './formulas';
+import {explainSentenceScore} from './scoreFactors';
+
+export class ReadabilityHoverProvider implements HoverProvider {
+
+    // getReport returns the last report for an open document, if there is one
+    constructor(private getReport: (doc: TextDocument) => ReadabilityReport | undefined) {}
+
+    provideHover(doc: TextDocument, position: Position, token: CancellationToken): Hover | undefined {
+        const report = this.getReport(doc);
+        if (!report) {
+            return undefined;
+        }
+
+        // only flagged sentences have a hover, unless it's turned on for all of them
+        const settings = getDocumentSettings(doc.uri, doc.getText());
+        const hoverAll = workspace.getConfiguration('readabilityHelper', doc.uri).get<boolean>('hoverAllSentences');
+        const sentences = hoverAll ? report.sentences : findDifficultSentences(report, settings);
+
+        const offset = doc.offsetAt(position);
+        const sentence = sentences.find(s => s.start <= offset && offset < s.end);
+        if (!sentence) {
+            return undefined;
+        }
+
+        const formula = getFormula(report.formula, settings.customFormulas);
+        const explanation = explainSentenceScore(formula, sentence.counts);
+
+        const markdown = new MarkdownString();
+        markdown.appendMarkdown(`**${formula.name}** sentence score: ${formatScore(explanation.score)}\n\n`);
+        explanation.inputs.forEach(input => {
+            markdown.appendMarkdown(`- ${input.name}: ${input.value}\n`);
+        });
+        if (explanation.mainFactor && explanation.scoreWithoutMainFactor !== undefined) {
+            markdown.appendMarkdown(`\nMost of the difficulty comes from **${explanation.mainFactor.name}**. ` +
+                `With a typical ${explanation.mainFactor.name}, this sentence would score ${formatScore(explanation.scoreWithoutMainFactor)}.`);
+        }
+
+        const range = new Range(doc.positionAt(sentence.start), doc.positionAt(sentence.end));
+        return new Hover(markdown, range);
+    }
+}
@@ -0,0 +1,112 @@
+'use strict';
+// Prose in HTML documents. Tags are dropped and entities decoded, and block
+// elements like <p> and <li> each start a new segment.
+
+import {ProseKind, ProseSegment, SourceComment} from './prose';
+import {InlineRule, SourceTextBuilder} from './sourceText';
+
+const namedEntities: {[name: string]: string} = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', shy: '',
+    ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    laquo: '«', raquo: '»', bull: '•', middot: '·', copy: '©', reg: '®', trade: '™',
+};
+
+function decodeEntity(match: RegExpExecArray): string {
+    const name = match[1];
+    if (name[0] === '#') {
+        const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : match[0];
+    }
+    return namedEntities[name] !== undefined ? namedEntities[name] : match[0];
+}
+
+const textRules: InlineRule[] = [
+    {pattern: /&(#[xX][0-9a-fA-F]+|#\d+|[a-zA-Z]+\d*);/g, replacement: decodeEntity},
+    // whitespace collapses in HTML, so blank lines don't end a sentence
+    {pattern: /[^\S\n]*\n\s*/g, replacement: '\n'},
+];
+
+// elements that never contain prose
+const skippedElements = ['head', 'script', 'style', 'pre', 'code', 'kbd', 'samp', 'var', 'math', 'svg', 'template', 'textarea', 'noscript', 'select'];
+const blockElements = [
+    'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+    'fieldset', 'figcaption', 'figure', 'footer', 'form', 'header', 'hr', 'html', 'legend', 'main', 'nav', 'ol', 'p',
+    'section', 'summary', 'table', 'tbody', 'tfoot', 'thead', 'tr', 'ul',
+];
+// block elements that set the kind of segment inside them
+const segmentKinds: {[element: string]: ProseKind} = {
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    li: 'listItem', td: 'tableCell', th: 'tableCell',
+};
+
+// Reads the prose, and adds the comments outside elements like <pre> and
+// <script> to comments if it's given.
+function readHtml(content: string, comments?: SourceComment[]): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+    // the elements that set a segment kind that we're inside, innermost last
+    const openElements: string[] = [];
+
+    const flush = () => {
+        const element = openElements[openElements.length - 1];
+        const kind = (element && segmentKinds[element]) || 'paragraph';
+        builder.flush(segments, kind, kind === 'heading' ? Number(element[1]) : undefined);
+    };
+
+    const tagRegex = /<!--[^]*?-->|<!\[CDATA\[[^]*?\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = tagRegex.exec(content)) !== null) {
+        builder.addInline(position, match.index, textRules);
+        position = match.index + match[0].length;
+        if (match[2] === undefined) {
+            if (comments && match[0].startsWith('<!--')) {
+                comments.push({text: match[0].slice(4, -3), start: match.index, end: position});
+            }
+            continue;
+        }
+
+        const isClosing = match[1] === '/';
+        const element = match[2].toLowerCase();
+        if (skippedElements.includes(element) && !isClosing && !match[3].endsWith('/')) {
+            const closingRegex = new RegExp(`</${element}\\s*>`, 'ig');
+            closingRegex.lastIndex = position;
+            const closing = closingRegex.exec(content);
+            position = closing ? closing.index + closing[0].length : content.length;
+            tagRegex.lastIndex = position;
+        } else if (element === 'br') {
+            builder.addBreak(match.index);
+        } else if (segmentKinds[element]) {
+            flush();
+            if (isClosing) {
+                const i = openElements.lastIndexOf(element);
+                if (i !== -1) {
+                    openElements.splice(i);
+                }
+            } else {
+                // </li>, </td> and </th> can be left out
+                const last = openElements[openElements.length - 1];
+                if (last && segmentKinds[last] === segmentKinds[element] && segmentKinds[element] !== 'heading') {
+                    openElements.pop();
+                }
+                openElements.push(element);
+            }
+        } else if (blockElements.includes(element)) {
+            flush();
+        }
+    }
+    builder.addInline(position, content.length, textRules);
+    flush();
+
+    return segments;
+}
+
+export function extractHtmlProse(content: string): ProseSegment[] {
+    return readHtml(content);
+}
+
+export function findHtmlComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    readHtml(content, comments);
+    return comments;
+}
@@ -0,0 +1,58 @@
+'use strict';
+// The natural languages we have formulas for, and working out which one a
+// document is written in. Not to be confused with VS Code's language ids,
+// which say what kind of file it is, such as Markdown or LaTeX.
+
+import * as path from 'path';
+
+import {readFrontMatter} from './frontMatter';
+
+export interface Language {
+    // ISO 639-1 code
+    id: string;
+    name: string;
+}
+
+export const defaultLanguageId = 'en';
+
+export const languages: Language[] = [
+    {id: 'en', name: 'English'},
+    {id: 'es', name: 'Spanish'},
+    {id: 'de', name: 'German'},
+    {id: 'fr', name: 'French'},
+    {id: 'it', name: 'Italian'},
+];
+
+// the supported language for a tag such as 'de' or 'de-AT', if there is one
+export function getLanguageForTag(tag?: string): Language | undefined {
+    if (!tag) {
+        return undefined;
+    }
+    const id = tag.trim().toLowerCase().split(/[-_]/)[0];
+    return languages.find(language => language.id === id);
+}
+
+// a `lang` or `language` key in the document's front matter
+function getFrontMatterLanguage(content: string): string | undefined {
+    const frontMatter = readFrontMatter(content);
+    return frontMatter.lang || frontMatter.language;
+}
+
+// a language tag in the file name, as in 'guide.de.md' or 'guide.pt-BR.txt'
+function getFileNameLanguage(filePath: string): string | undefined {
+    const match = /\.([a-z]{2}(?:[-_][a-zA-Z]{2})?)\.[^.]+$/.exec(path.basename(filePath));
+    return match ? match[1] : undefined;
+}
+
+// The language a document is written in: from its front matter, then its file
+// name, then the configured language.
+export function detectLanguage(content: string, filePath: string | undefined, configuredLanguage?: string): string {
+    const tags = [getFrontMatterLanguage(content), filePath ? getFileNameLanguage(filePath) : undefined, configuredLanguage];
+    for (const tag of tags) {
+        const language = getLanguageForTag(tag);
+        if (language) {
+            return language.id;
+        }
+    }
+    return defaultLanguageId;
+}
@@ -0,0 +1,164 @@
+'use strict';
+// Prose in LaTeX documents. Only the document body is read, and commands are
+// dropped or unwrapped: \emph{this} keeps its text, \cite{that} doesn't.
+
+import {ProseKind, ProseSegment, SourceComment} from './prose';
+import {getLines, InlineRule, SourceTextBuilder} from './sourceText';
+import {escapeRegExp} from './styleRules';
+
+// a command's brace argument, with one level of nested braces
+const argument = '((?:[^{}]|\\{[^{}]*\\})*)';
+
+const inlineRules: InlineRule[] = [
+    // comments, but not escaped percent signs. Like LaTeX, we join the lines
+    // either side of a comment without a space
+    {pattern: /(?<!\\)%[^\n]*\n?[^\S\n]*/g},
+    {pattern: /\\([%&$#_{}])/g, replacement: match => match[1]},
+    {pattern: /\\\\(?:\[[^\]]*\])?/g, replacement: ' '},
+    // math
+    {pattern: /\$\$[^]*?\$\$|\$[^$]*\$|\\\([^]*?\\\)|\\\[[^]*?\\\]/g},
+    {pattern: /\\(?:ldots|dots)\b(?:\{\})?/g, replacement: '…'},
+    // commands whose arguments aren't prose
+    {pattern: /\\(?:begin|end|cite[a-zA-Z]*|ref|eqref|autoref|[cC]ref|pageref|label|url|includegraphics|input|include|index|footnote|[hv]space\*?|bibliography|bibliographystyle|usepackage|newcommand|renewcommand|setlength|maketitle|tableofcontents)(?:\[[^\]]*\])*(?:\{(?:[^{}]|\{[^{}]*\})*\})*/g},
+    // commands with a first argument that isn't prose, and a second that is
+    {pattern: new RegExp(`\\\\(?:href|textcolor|colorbox)\\{[^{}]*\\}\\{${argument}(\\})`, 'g')},
+    // any other command keeps its text, eg \emph{...} or \caption{...}
+    {pattern: new RegExp(`\\\\[a-zA-Z]+\\*?(?:\\[[^\\]]*\\])?\\{${argument}(\\})`, 'g')},
+    {pattern: /\\[a-zA-Z]+\*?/g},
+    {pattern: /[{}]/g},
+    {pattern: /~/g, replacement: ' '},
+];
+
+const sectionDepths: {[command: string]: number} = {
+    part: 1,
+    chapter: 1,
+    section: 2,
+    subsection: 3,
+    subsubsection: 4,
+    paragraph: 5,
+    subparagraph: 6,
+};
+const headingRegex = new RegExp(`^\\s*\\\\(${Object.keys(sectionDepths).join('|')})\\*?(?:\\[[^\\]]*\\])?\\{${argument}\\}`);
+
+// these never contain prose
+const skippedEnvironments = [
+    'equation', 'equation*', 'align', 'align*', 'gather', 'gather*', 'multline', 'multline*', 'eqnarray', 'eqnarray*',
+    'math', 'displaymath', 'verbatim', 'Verbatim', 'lstlisting', 'minted', 'comment', 'tikzpicture', 'tabular',
+    'tabular*', 'tabularx', 'thebibliography',
+];
+
+// the line up to its comment, if it has one
+function stripComment(line: string): string {
+    const match = /(?<!\\)%/.exec(line);
+    return match ? line.slice(0, match.index) : line;
+}
+
+// Reads the prose, and adds the % comments in the document body to comments
+// if it's given. Comments in verbatim and other skipped environments aren't
+// comments to LaTeX either, or are left out along with their environment.
+function readLatex(content: string, comments?: SourceComment[]): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+
+    // the paragraph or list item we're in the middle of
+    let pending: {start: number, end: number, kind: ProseKind} | undefined = undefined;
+    const flush = () => {
+        if (pending) {
+            builder.addInline(pending.start, pending.end, inlineRules);
+            builder.flush(segments, pending.kind);
+            pending = undefined;
+        }
+    };
+
+    // documents without a preamble, such as included chapters, are all body
+    let inBody = !content.includes('\\begin{document}');
+    let skipUntil: RegExp | undefined = undefined;
+
+    for (const line of getLines(content)) {
+        const code = stripComment(line.text);
+        const end = line.start + code.length;
+
+        if (!inBody) {
+            inBody = code.includes('\\begin{document}');
+            continue;
+        }
+        if (skipUntil) {
+            if (skipUntil.test(code)) {
+                skipUntil = undefined;
+            }
+            continue;
+        }
+        if (code.includes('\\end{document}')) {
+            break;
+        }
+        if (comments && code.length < line.text.length) {
+            comments.push({text: line.text.slice(code.length + 1), start: line.start + code.length, end: line.start + line.text.length});
+        }
+
+        if (line.text.trim() === '') {
+            flush();
+            continue;
+        }
+        // comment lines don't end a paragraph
+        if (code.trim() === '') {
+            continue;
+        }
+
+        const begin = /\\begin\{([^}]+)\}/.exec(code);
+        if (begin && skippedEnvironments.includes(begin[1])) {
+            flush();
+            const endRegex = new RegExp(`\\\\end\\{${escapeRegExp(begin[1])}\\}`);
+            if (!endRegex.test(code.slice(begin.index))) {
+                skipUntil = endRegex;
+            }
+            continue;
+        }
+        // display math on lines of its own
+        const displayMath = /\\\[|\$\$/.exec(code);
+        if (displayMath && !code.slice(displayMath.index + 2).includes(displayMath[0] === '$$' ? '$$' : '\\]')) {
+            flush();
+            skipUntil = displayMath[0] === '$$' ? /\$\$/ : /\\\]/;
+            continue;
+        }
+
+        const heading = headingRegex.exec(code);
+        if (heading) {
+            flush();
+            const argumentEnd = line.start + heading[0].length - 1;
+            builder.addInline(argumentEnd - heading[2].length, argumentEnd, inlineRules);
+            builder.flush(segments, 'heading', sectionDepths[heading[1]]);
+            continue;
+        }
+
+        const item = /^\s*\\item\b(?:\[[^\]]*\])?\s*/.exec(code);
+        if (item) {
+            flush();
+            pending = {start: line.start + item[0].length, end, kind: 'listItem'};
+            continue;
+        }
+        // the start and end of lists and other environments end a paragraph
+        if (/^\s*\\(begin|end)\{[^}]*\}\s*$/.test(code)) {
+            flush();
+            continue;
+        }
+
+        if (pending) {
+            pending.end = end;
+        } else {
+            pending = {start: line.start, end, kind: 'paragraph'};
+        }
+    }
+    flush();
+
+    return segments;
+}
+
+export function extractLatexProse(content: string): ProseSegment[] {
+    return readLatex(content);
+}
+
+export function findLatexComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    readLatex(content, comments);
+    return comments;
+}
@@ -0,0 +1,209 @@
+'use strict';
+
+import {Content, Parent, Root} from 'mdast';
+
+import {RunCache} from './cache';
+import {ProseKind, ProseSegment, SourceComment} from './prose';
+
+function parseMarkdown(content: string): Root {
+    /* eslint-disable @typescript-eslint/no-var-requires */
+    const fromMarkdown = require('mdast-util-from-markdown');
+    const gfmTableSyntax = require('micromark-extension-gfm-table');
+    const gfmTable = require('mdast-util-gfm-table');
+    /* eslint-enable @typescript-eslint/no-var-requires */
+
+    return fromMarkdown(content, {
+        extensions: [gfmTableSyntax],
+        mdastExtensions: [gfmTable.fromMarkdown],
+    });
+}
+
+class SegmentBuilder {
+    public text = '';
+    public offsets: number[] = [];
+
+    constructor(private source: string) {}
+
+    // Add a node's value, which was parsed from source[start:end]. The value is
+    // usually the source with some characters dropped (escapes, blockquote
+    // markers, indentation), so we walk both together to map each character.
+    add(value: string, start: number, end: number) {
+        let sourceIndex = start;
+        for (let i = 0; i < value.length; i++) {
+            let matchIndex = sourceIndex;
+            while (matchIndex < end && this.source[matchIndex] !== value[i]) {
+                matchIndex += 1;
+            }
+            if (matchIndex < end) {
+                sourceIndex = matchIndex;
+            }
+            this.text += value[i];
+            this.offsets.push(Math.min(sourceIndex, end - 1));
+            if (matchIndex < end) {
+                sourceIndex += 1;
+            }
+        }
+    }
+}
+
+// these never contain prose
+const skippedTypes = ['code', 'inlineCode', 'html', 'image', 'imageReference', 'definition', 'footnoteDefinition', 'thematicBreak'];
+
+function collectInline(node: Content, builder: SegmentBuilder) {
+    if (skippedTypes.includes(node.type) || !node.position) {
+        return;
+    }
+    if (node.type === 'text') {
+        builder.add(node.value, node.position.start.offset!, node.position.end.offset!);
+    } else if (node.type === 'break') {
+        builder.text += '\n';
+        builder.offsets.push(node.position.start.offset!);
+    } else if ('children' in node) {
+        // emphasis, strong, links, etc. only their text is prose, not their urls
+        (node as Parent).children.forEach(child => collectInline(child, builder));
+    }
+}
+
+function collectBlocks(node: Parent, kind: ProseKind, source: string, segments: ProseSegment[]) {
+    node.children.forEach(child => {
+        if (skippedTypes.includes(child.type)) {
+            return;
+        }
+        switch (child.type) {
+            case 'paragraph':
+            case 'heading':
+            case 'tableCell': {
+                const builder = new SegmentBuilder(source);
+                child.children.forEach(inline => collectInline(inline, builder));
+
+                // paragraphs take the kind of their container, eg list items
+                const segmentKind = child.type === 'paragraph' ? kind : child.type;
+                if (builder.text.trim().length > 0) {
+                    segments.push({
+                        kind: segmentKind,
+                        text: builder.text,
+                        offsets: builder.offsets,
+                        depth: child.type === 'heading' ? child.depth : undefined,
+                    });
+                }
+                break;
+            }
+            default:
+                if ('children' in child) {
+                    collectBlocks(child as Parent, child.type === 'listItem' ? 'listItem' : kind, source, segments);
+                }
+                break;
+        }
+    });
+}
+
+interface MarkdownBlock {
+    text: string;
+    start: number;
+}
+
+// Split the document at blank lines into blocks that can be parsed on their
+// own. We don't split inside fenced code or HTML comments, or before indented
+// lines since they may continue a list item. Front matter is left out entirely.
+function splitBlocks(content: string): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    const lines = content.split('\n');
+
+    let blockStart = 0;
+    let offset = 0;
+    let inFrontMatter = /^(---|\+\+\+)\s*$/.test(lines[0]);
+    let fence: string | undefined = undefined;
+    let inComment = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (inFrontMatter) {
+            if (i > 0 && /^(---|\.\.\.|\+\+\+)\s*$/.test(line)) {
+                inFrontMatter = false;
+                blockStart = offset + line.length + 1;
+            }
+        } else if (fence) {
+            if (line.trim().startsWith(fence)) {
+                fence = undefined;
+            }
+        } else if (inComment) {
+            inComment = !line.includes('-->');
+        } else {
+            const fenceMatch = /^\s{0,3}(`{3,}|~{3,})/.exec(line);
+            if (fenceMatch) {
+                fence = fenceMatch[1];
+            } else if (line.includes('<!--')) {
+                inComment = !line.slice(line.lastIndexOf('<!--')).includes('-->');
+            } else if (line.trim() === '' && i + 1 < lines.length && /^\S/.test(lines[i + 1])) {
+                blocks.push({text: content.slice(blockStart, offset), start: blockStart});
+                blockStart = offset + line.length + 1;
+            }
+        }
+
+        offset += line.length + 1;
+    }
+    blocks.push({text: content.slice(blockStart), start: blockStart});
+
+    return blocks;
+}
+
+function extractBlockProse(text: string): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    collectBlocks(parseMarkdown(text), 'paragraph', text, segments);
+    return segments;
+}
+
+// Parse Markdown and return only the prose in it, mapped to exact source offsets.
+// Code, HTML, front matter and link destinations are all left out.
+export function extractMarkdownProse(content: string, blockCache?: RunCache<ProseSegment[]>): ProseSegment[] {
+    // link reference definitions can be anywhere in the document, so every
+    // block needs to see them to resolve its links
+    const definitions = (content.match(/^ {0,3}\[[^\]]+\]:.*$/gm) || []).join('\n');
+
+    const segments: ProseSegment[] = [];
+    splitBlocks(content).forEach(block => {
+        // definitions go after the block, so they don't change its offsets
+        const text = definitions ? `${block.text}\n\n${definitions}` : block.text;
+        const blockSegments = blockCache ? blockCache.get(text, () => extractBlockProse(text)) : extractBlockProse(text);
+
+        blockSegments.forEach(segment => {
+            segments.push({
+                kind: segment.kind,
+                text: segment.text,
+                depth: segment.depth,
+                offsets: segment.offsets.map(offset => offset + block.start),
+            });
+        });
+    });
+    return segments;
+}
+
+// add the HTML comments in node and its children, found by the parser so that
+// examples in code spans and fences aren't included
+function collectComments(node: Parent, source: string, sourceStart: number, comments: SourceComment[]) {
+    node.children.forEach(child => {
+        if (child.type === 'html' && child.position) {
+            const start = child.position.start.offset!;
+            const html = source.slice(start, child.position.end.offset!);
+            const commentRegex = /<!--([^]*?)-->/g;
+            let match: RegExpExecArray | null;
+            while ((match = commentRegex.exec(html)) !== null) {
+                const commentStart = sourceStart + start + match.index;
+                comments.push({text: match[1], start: commentStart, end: commentStart + match[0].length});
+            }
+        } else if ('children' in child) {
+            collectComments(child as Parent, source, sourceStart, comments);
+        }
+    });
+}
+
+// The HTML comments in a Markdown document. Only blocks with a comment in them
+// are parsed.
+export function findMarkdownComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    splitBlocks(content).filter(block => block.text.includes('<!--')).forEach(block => {
+        collectComments(parseMarkdown(block.text), block.text, block.start, comments);
+    });
+    return comments;
+}
@@ -0,0 +1,103 @@
+'use strict';
+// Prose in Jupyter notebook files: the Markdown cells, read from the notebook's
+// JSON. Offsets point into the JSON, so sentences can still be found in the
+// file, eg by the command line tool.
+
+import {findNodeAtLocation, Node, parseTree} from 'jsonc-parser';
+
+import {RunCache} from './cache';
+import {extractMarkdownProse, findMarkdownComments} from './markdown';
+import {ProseSegment, SourceComment} from './prose';
+
+const escapes: {[escape: string]: string} = {'"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'};
+
+interface DecodedText {
+    text: string;
+    // source offset of each character in text
+    offsets: number[];
+}
+
+// the value of a JSON string, with each character mapped to where it came from
+function decodeString(content: string, node: Node, decoded: DecodedText) {
+    const end = node.offset + node.length - 1;
+    for (let i = node.offset + 1; i < end; i++) {
+        if (content[i] !== '\\') {
+            decoded.text += content[i];
+            decoded.offsets.push(i);
+        } else if (content[i + 1] === 'u') {
+            decoded.text += String.fromCharCode(parseInt(content.slice(i + 2, i + 6), 16));
+            decoded.offsets.push(i);
+            i += 5;
+        } else {
+            decoded.text += escapes[content[i + 1]] || content[i + 1];
+            decoded.offsets.push(i);
+            i += 1;
+        }
+    }
+}
+
+// a cell's source is a string, or a list of lines that each end with \n
+function getCellSource(content: string, cell: Node): DecodedText {
+    const decoded: DecodedText = {text: '', offsets: []};
+    const source = findNodeAtLocation(cell, ['source']);
+    if (source && source.type === 'string') {
+        decodeString(content, source, decoded);
+    } else if (source && source.type === 'array') {
+        (source.children || []).filter(line => line.type === 'string').forEach(line => decodeString(content, line, decoded));
+    }
+    return decoded;
+}
+
+// the source of each Markdown cell
+function getMarkdownCells(content: string): DecodedText[] {
+    const root = parseTree(content);
+    const cells = root && findNodeAtLocation(root, ['cells']);
+    if (!cells || cells.type !== 'array') {
+        return [];
+    }
+    return (cells.children || []).filter(cell => {
+        const cellType = findNodeAtLocation(cell, ['cell_type']);
+        return cellType && cellType.value === 'markdown';
+    }).map(cell => getCellSource(content, cell));
+}
+
+// The prose in the notebook's Markdown cells. Each cell is read on its own, so
+// a sentence never runs from one cell into the next.
+export function extractNotebookProse(content: string, blockCache?: RunCache<ProseSegment[]>): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    getMarkdownCells(content).forEach(source => {
+        extractMarkdownProse(source.text, blockCache).forEach(segment => {
+            segments.push({
+                kind: segment.kind,
+                text: segment.text,
+                depth: segment.depth,
+                offsets: segment.offsets.map(offset => source.offsets[offset]),
+            });
+        });
+    });
+    return segments;
+}
+
+// the HTML comments in the Markdown cells
+export function findNotebookComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    getMarkdownCells(content).forEach(source => {
+        findMarkdownComments(source.text).forEach(comment => {
+            // the cell's lines end with an escaped newline, or the end of the cell
+            const lineEnd = source.text.indexOf('\n', comment.end);
+            const nextLineEnd = lineEnd === -1 ? -1 : source.text.indexOf('\n', lineEnd + 1);
+            comments.push({
+                text: comment.text,
+                start: source.offsets[comment.start],
+                end: source.offsets[comment.end - 1] + 1,
+                nextLineEnd: nextLineEnd === -1 ? source.offsets[source.offsets.length - 1] + 1 : source.offsets[nextLineEnd],
+            });
+        });
+    });
+    return comments;
+}
+
+// the text of each Markdown cell, for scoring the cells of an open notebook together
+export function joinMarkdownCells(cells: string[]): string {
+    return cells.map(cell => cell.trim()).filter(cell => cell.length > 0).join('\n\n');
+}
@@ -0,0 +1,49 @@
+'use strict';
+// Plain-language replacements for wordy or complex words and phrases. Phrases
+// are lowercase, and are matched ignoring case.
+
+export const plainLanguagePhrases: {[phrase: string]: string} = {
+    'a large number of': 'many',
+    'a majority of': 'most',
+    'a number of': 'some',
+    'accordingly': 'so',
+    'additional': 'more',
+    'approximately': 'about',
+    'as a means of': 'to',
+    'as a result of': 'because of',
+    'assist': 'help',
+    'at the present time': 'now',
+    'at this point in time': 'now',
+    'commence': 'begin',
+    'demonstrate': 'show',
+    'despite the fact that': 'although',
+    'due to the fact that': 'because',
+    'endeavor': 'try',
+    'facilitate': 'help',
+    'for the purpose of': 'for',
+    'has the ability to': 'can',
+    'have the ability to': 'can',
+    'in a timely manner': 'promptly',
+    'in close proximity to': 'near',
+    'in order to': 'to',
+    'in spite of the fact that': 'although',
+    'in the event that': 'if',
+    'in the near future': 'soon',
+    'is able to': 'can',
+    'are able to': 'can',
+    'it is possible that': 'maybe',
+    'numerous': 'many',
+    'on a daily basis': 'daily',
+    'owing to the fact that': 'because',
+    'prior to': 'before',
+    'purchase': 'buy',
+    'subsequent to': 'after',
+    'sufficient': 'enough',
+    'terminate': 'end',
+    'utilise': 'use',
+    'utilize': 'use',
+    'utilization': 'use',
+    'with reference to': 'about',
+    'with regard to': 'about',
+    'with respect to': 'about',
+};
@@ -0,0 +1,106 @@
+'use strict';
+// Audience presets bundle a formula with the thresholds and flagging options
+// that suit a kind of reader, so they can be switched all at once.
+
+export interface AudiencePreset {
+    id: string;
+    name: string;
+    description?: string;
+    formula: string;
+    // only applies to the preset's own formula
+    maxScore?: number;
+    // the same as the readabilityHelper settings of the same names
+    sentenceFlagging?: string;
+    sentenceFlagCount?: number;
+    sentenceFlagPercent?: number;
+    maxSentenceScore?: number;
+    minSentenceWords?: number;
+}
+
+export const presets: AudiencePreset[] = [
+    {
+        id: 'children',
+        name: 'Children',
+        description: 'Easy to read for 11 year olds, flagging every hard sentence',
+        formula: 'flesch',
+        maxScore: 80,
+        sentenceFlagging: 'threshold',
+        maxSentenceScore: 70,
+        minSentenceWords: 3,
+    },
+    {
+        id: 'general',
+        name: 'General public',
+        description: 'Plain English for most adults, flagging the hardest tenth of sentences',
+        formula: 'flesch',
+        maxScore: 60,
+        sentenceFlagging: 'percent',
+        sentenceFlagPercent: 10,
+        minSentenceWords: 5,
+    },
+    {
+        id: 'technical',
+        name: 'Technical docs',
+        description: 'Readers who know the subject, flagging only the hardest few sentences',
+        formula: 'flesch-kincaid',
+        maxScore: 12,
+        sentenceFlagging: 'top',
+        sentenceFlagCount: 5,
+        minSentenceWords: 8,
+    },
+    {
+        id: 'legal',
+        name: 'Plain-language legal',
+        description: 'Contracts and policies for the public, flagging sentences past grade 14',
+        formula: 'flesch-kincaid',
+        maxScore: 10,
+        sentenceFlagging: 'threshold',
+        maxSentenceScore: 14,
+        minSentenceWords: 5,
+    },
+];
+
+// presets that are valid, and errors for the ones that aren't
+export function readCustomPresets(value: unknown): [AudiencePreset[], string[]] {
+    const customPresets: AudiencePreset[] = [];
+    const errors: string[] = [];
+    (Array.isArray(value) ? value : []).forEach((preset: AudiencePreset, i) => {
+        const name = (preset && preset.id) || `#${i + 1}`;
+        if (!preset || typeof preset.id !== 'string' || !/^[a-z0-9-]+$/.test(preset.id)) {
+            errors.push(`Custom preset ${name} was skipped: the id must be lowercase letters, numbers and dashes`);
+        } else if (presets.concat(customPresets).some(p => p.id === preset.id)) {
+            errors.push(`Custom preset ${name} was skipped: "${preset.id}" is already a preset`);
+        } else if (typeof preset.formula !== 'string') {
+            errors.push(`Custom preset ${name} was skipped: the formula is missing`);
+        } else {
+            customPresets.push(Object.assign({}, preset, {name: preset.name || preset.id}));
+        }
+    });
+    return [customPresets, errors];
+}
+
+export function getPreset(id: unknown, customPresets: AudiencePreset[] = []): AudiencePreset | undefined {
+    return presets.concat(customPresets).find(preset => preset.id === id);
+}
+
+// the preset's value for a setting, or undefined if it doesn't set that one
+export function getPresetSetting(preset: AudiencePreset, name: string): unknown {
+    switch (name) {
+        case 'readabilityHelper.formula':
+            return preset.formula;
+        case `readabilityHelper.maxDifficultyScore.${preset.formula}`:
+            return preset.maxScore;
+        case 'readabilityHelper.sentenceFlagging':
+            return preset.sentenceFlagging;
+        case 'readabilityHelper.sentenceFlagCount':
+            return preset.sentenceFlagCount;
+        case 'readabilityHelper.sentenceFlagPercent':
+            return preset.sentenceFlagPercent;
+        case 'readabilityHelper.maxSentenceScore':
+            return preset.maxSentenceScore;
+        case 'readabilityHelper.minSentenceWords':
+            return preset.minSentenceWords;
+        default:
+            return undefined;
+    }
+}
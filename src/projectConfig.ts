@@ -0,0 +1,214 @@
+'use strict';
+// A .readabilityrc file shares readability settings with everyone working on a
+// project, in or out of VS Code. It's found by looking up the directory tree
+// from each document, and takes precedence over the user's settings:
+//
+//   formula: flesch
+//   ignore: [drafts/**, CHANGELOG.md]
+//   overrides:
+//     - files: docs/kids/**
+//       formula: spache
+//       maxScore: 3
+//
+// Keys are the readabilityHelper setting names without the prefix, plus
+// maxScore for whichever formula is used. Globs are relative to the file.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {IMinimatch, Minimatch} from 'minimatch';
+
+import {getPreset, getPresetSetting, readCustomPresets} from './presets';
+import {getDefaultSetting, SettingGetter, withPreset} from './settings';
+
+export const projectConfigFileNames = ['.readabilityrc', '.readabilityrc.json', '.readabilityrc.yaml', '.readabilityrc.yml'];
+
+// setting values by full setting name, or 'maxScore'
+type ConfigSettings = Map<string, unknown>;
+
+interface ConfigOverride {
+    files: IMinimatch[];
+    settings: ConfigSettings;
+}
+
+export interface ProjectConfig {
+    path: string;
+    // the folder globs are relative to
+    dir: string;
+    settings: ConfigSettings;
+    ignore: IMinimatch[];
+    overrides: ConfigOverride[];
+    // problems with the file. Anything that can't be understood is left out
+    errors: string[];
+}
+
+function toGlobs(value: unknown): IMinimatch[] {
+    const patterns = Array.isArray(value) ? value : [value];
+    // patterns without a slash match files in any folder, like .gitignore
+    return patterns.map(pattern => new Minimatch(String(pattern), {dot: true, matchBase: true}));
+}
+
+function readConfigSettings(block: {[key: string]: unknown}, dir: string, ignoredKeys: string[], errors: string[]): ConfigSettings {
+    const settings: ConfigSettings = new Map();
+    Object.keys(block).filter(key => !ignoredKeys.includes(key)).forEach(key => {
+        const name = `readabilityHelper.${key}`;
+        if (key === 'maxScore') {
+            settings.set(key, block[key]);
+        } else if (key === 'glossaryFiles') {
+            // relative to the config file, rather than the workspace folder
+            const files = Array.isArray(block[key]) ? block[key] as unknown[] : [block[key]];
+            settings.set(name, files.map(file => path.resolve(dir, String(file))));
+        } else if (getDefaultSetting(name) !== undefined) {
+            settings.set(name, block[key]);
+        } else {
+            errors.push(`unknown setting "${key}"`);
+        }
+    });
+    return settings;
+}
+
+function parseProjectConfig(configPath: string, content: string): ProjectConfig {
+    const dir = path.dirname(configPath);
+    const config: ProjectConfig = {path: configPath, dir, settings: new Map(), ignore: [], overrides: [], errors: []};
+
+    let values: unknown;
+    try {
+        if (configPath.endsWith('.json')) {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const jsonc = require('jsonc-parser');
+            values = jsonc.parse(content);
+        } else {
+            // JSON is also valid YAML, so .readabilityrc can be either
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const yaml = require('js-yaml');
+            values = yaml.safeLoad(content);
+        }
+    } catch (err) {
+        config.errors.push(`${configPath} couldn't be read: ${err.message}`);
+        return config;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        if (values !== undefined && values !== null) {
+            config.errors.push(`${configPath} should contain settings, not ${JSON.stringify(values)}`);
+        }
+        return config;
+    }
+
+    const errors: string[] = [];
+    const block = values as {[key: string]: unknown};
+    config.settings = readConfigSettings(block, dir, ['ignore', 'overrides'], errors);
+    if (block.ignore !== undefined) {
+        config.ignore = toGlobs(block.ignore);
+    }
+    (Array.isArray(block.overrides) ? block.overrides : []).forEach((override, i) => {
+        if (!override || override.files === undefined) {
+            errors.push(`override ${i + 1} has no files`);
+            return;
+        }
+        config.overrides.push({
+            files: toGlobs(override.files),
+            settings: readConfigSettings(override, dir, ['files'], errors),
+        });
+    });
+    config.errors = errors.map(error => `${configPath}: ${error}`);
+    return config;
+}
+
+// config files are re-read only when they change
+const configFileCache = new Map<string, {mtime: number, config: ProjectConfig}>();
+
+function readProjectConfig(configPath: string): ProjectConfig | undefined {
+    let mtime: number;
+    try {
+        const stat = fs.statSync(configPath);
+        if (!stat.isFile()) {
+            return undefined;
+        }
+        mtime = stat.mtimeMs;
+    } catch (err) {
+        configFileCache.delete(configPath);
+        return undefined;
+    }
+
+    const cached = configFileCache.get(configPath);
+    if (cached && cached.mtime === mtime) {
+        return cached.config;
+    }
+    const config = parseProjectConfig(configPath, fs.readFileSync(configPath, 'utf8'));
+    configFileCache.set(configPath, {mtime, config});
+    return config;
+}
+
+// the nearest config file in the file's folder or any folder above it
+export function findProjectConfig(filePath: string): ProjectConfig | undefined {
+    let dir = path.dirname(path.resolve(filePath));
+    for (;;) {
+        for (const name of projectConfigFileNames) {
+            const config = readProjectConfig(path.join(dir, name));
+            if (config) {
+                return config;
+            }
+        }
+        const parent = path.dirname(dir);
+        if (parent === dir) {
+            return undefined;
+        }
+        dir = parent;
+    }
+}
+
+function getRelativePath(config: ProjectConfig, filePath: string): string {
+    return path.relative(config.dir, path.resolve(filePath)).split(path.sep).join('/');
+}
+
+export function isIgnored(config: ProjectConfig | undefined, filePath: string): boolean {
+    if (!config) {
+        return false;
+    }
+    const relativePath = getRelativePath(config, filePath);
+    return config.ignore.some(glob => glob.match(relativePath));
+}
+
+function getConfigSetting(settings: ConfigSettings, name: string): unknown {
+    if (settings.has(name)) {
+        return settings.get(name);
+    }
+    if (name.startsWith('readabilityHelper.maxDifficultyScore.')) {
+        return settings.get('maxScore');
+    }
+    return undefined;
+}
+
+// Settings for a file with the config file's values in their place. Later
+// overrides win over earlier ones, and all of them over the top level. A
+// preset chosen at any level fills in what that level doesn't set itself.
+export function withProjectConfig(get: SettingGetter, config: ProjectConfig | undefined, filePath: string): SettingGetter {
+    const getWithPreset = withPreset(get);
+    if (!config) {
+        return getWithPreset;
+    }
+    const relativePath = getRelativePath(config, filePath);
+    const layers = config.overrides
+        .filter(override => override.files.some(glob => glob.match(relativePath)))
+        .map(override => override.settings)
+        .reverse()
+        .concat([config.settings]);
+
+    // custom presets can come from the config file too, but never from a preset
+    const customPresetsLayer = layers.find(settings => settings.has('readabilityHelper.customPresets'));
+    const [customPresets] = readCustomPresets(customPresetsLayer ? customPresetsLayer.get('readabilityHelper.customPresets') : get('readabilityHelper.customPresets'));
+
+    return name => {
+        for (const settings of layers) {
+            const value = getConfigSetting(settings, name);
+            if (value !== undefined) {
+                return value;
+            }
+            const preset = settings.has('readabilityHelper.preset') ? getPreset(settings.get('readabilityHelper.preset'), customPresets) : undefined;
+            const presetValue = preset ? getPresetSetting(preset, name) : undefined;
+            if (presetValue !== undefined) {
+                return presetValue;
+            }
+        }
+        return getWithPreset(name);
+    };
+}
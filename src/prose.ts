@@ -0,0 +1,192 @@
+'use strict';
+
+import * as path from 'path';
+
+import {extractAsciidocProse, findAsciidocComments} from './asciidoc';
+import {RunCache} from './cache';
+import {extractBlockCommentProse, extractDocstringProse, findCLikeComments, findPythonComments} from './comments';
+import {extractHtmlProse, findHtmlComments} from './html';
+import {extractLatexProse, findLatexComments} from './latex';
+import {extractMarkdownProse, findMarkdownComments} from './markdown';
+import {extractNotebookProse, findNotebookComments} from './notebook';
+import {extractRestructuredTextProse, findRestructuredTextComments} from './restructuredText';
+
+export type ProseKind = 'paragraph' | 'heading' | 'listItem' | 'tableCell';
+
+// A run of prose pulled out of a document. Segments never share a sentence,
+// so headings, list items and table cells each stand on their own.
+export interface ProseSegment {
+    kind: ProseKind;
+    text: string;
+    // heading level from 1 to 6, only set for headings
+    depth?: number;
+    // source offset of each character in text
+    offsets: number[];
+}
+
+// A comment in a document, eg <!-- this --> in Markdown. text is what's
+// between the comment markers.
+export interface SourceComment {
+    text: string;
+    // source offsets of the whole comment, markers included
+    start: number;
+    end: number;
+    // where the line after the comment ends, for sources where lines don't end
+    // with a newline, eg the cells of a notebook
+    nextLineEnd?: number;
+}
+
+// returns the source range covered by text.slice(start, end)
+export function getSourceRange(segment: ProseSegment, start: number, end: number): [number, number] {
+    if (end <= start) {
+        return [segment.offsets[start], segment.offsets[start]];
+    }
+    return [segment.offsets[start], segment.offsets[end - 1] + 1];
+}
+
+// Lines without punctuation, as in a plain text list, end their sentence
+// unless the next line goes on in lowercase.
+const unpunctuatedLineEndRegex = /(?<=[\p{L}\p{N}:])[^\S\n]*\n(?=[^\S\n]*[^\s\p{Ll}])/gu;
+
+// plain text has no markup to remove, so we just break it into paragraphs,
+// and unpunctuated lines into their own segments
+function extractPlaintextProse(content: string): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const paragraphRegex = /\S[^]*?(?=\n[^\S\n]*\n|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = paragraphRegex.exec(content)) !== null) {
+        const paragraph = match[0].trimEnd();
+        const paragraphStart = match.index;
+        let start = 0;
+        const addSegment = (end: number) => {
+            const piece = paragraph.slice(start, end);
+            const text = piece.trim();
+            const offset = paragraphStart + start + piece.indexOf(text);
+            const offsets: number[] = [];
+            for (let i = 0; i < text.length; i++) {
+                offsets.push(offset + i);
+            }
+            segments.push({kind: 'paragraph', text, offsets});
+        };
+        unpunctuatedLineEndRegex.lastIndex = 0;
+        let lineEnd: RegExpExecArray | null;
+        while ((lineEnd = unpunctuatedLineEndRegex.exec(paragraph)) !== null) {
+            addSegment(lineEnd.index);
+            start = lineEnd.index + lineEnd[0].length;
+        }
+        addSegment(paragraph.length);
+    }
+    return segments;
+}
+
+// plain text has no comments of its own, so we use HTML ones like Markdown does
+function findPlaintextComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    const commentRegex = /<!--([^]*?)-->/g;
+    let match: RegExpExecArray | null;
+    while ((match = commentRegex.exec(content)) !== null) {
+        comments.push({text: match[1], start: match.index, end: match.index + match[0].length});
+    }
+    return comments;
+}
+
+// Pulls the prose out of a document in one language. blockCache lets
+// extractors skip re-parsing parts of the document that haven't changed.
+export type ProseExtractor = (content: string, blockCache?: RunCache<ProseSegment[]>) => ProseSegment[];
+
+export interface ProseLanguage {
+    // VS Code language ids
+    languageIds: string[];
+    // file extensions, for files that aren't open in an editor
+    extensions: string[];
+    extract: ProseExtractor;
+    // the document's comments, leaving out any that are shown as code or
+    // literal text. Languages without one have no comments we read
+    findComments?: (content: string) => SourceComment[];
+    // source code, where only the comments are prose. Whole folders of it
+    // aren't checked unless asked for
+    isSourceCode?: boolean;
+}
+
+const proseLanguages: ProseLanguage[] = [
+    {languageIds: ['markdown'], extensions: ['.md', '.markdown'], extract: extractMarkdownProse, findComments: findMarkdownComments},
+    {languageIds: ['plaintext'], extensions: ['.txt'], extract: extractPlaintextProse, findComments: findPlaintextComments},
+    {languageIds: ['latex', 'tex'], extensions: ['.tex'], extract: extractLatexProse, findComments: findLatexComments},
+    {languageIds: ['restructuredtext'], extensions: ['.rst'], extract: extractRestructuredTextProse, findComments: findRestructuredTextComments},
+    {
+        languageIds: ['asciidoc'],
+        extensions: ['.adoc', '.asciidoc', '.asc'],
+        extract: extractAsciidocProse,
+        findComments: findAsciidocComments,
+    },
+    {languageIds: ['html'], extensions: ['.html', '.htm', '.xhtml'], extract: extractHtmlProse, findComments: findHtmlComments},
+    // notebooks open in the notebook editor, where each Markdown cell is a
+    // markdown document, so this is only used for files read from disk
+    {languageIds: ['jupyter-notebook'], extensions: ['.ipynb'], extract: extractNotebookProse, findComments: findNotebookComments},
+    {
+        languageIds: [
+            'javascript', 'javascriptreact', 'typescript', 'typescriptreact', 'java', 'c', 'cpp', 'csharp', 'go',
+            'rust', 'php', 'swift', 'kotlin', 'scala', 'dart',
+        ],
+        extensions: [
+            '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.java', '.c', '.h', '.cpp', '.cc', '.hpp', '.cs', '.go',
+            '.rs', '.php', '.swift', '.kt', '.kts', '.scala', '.dart',
+        ],
+        extract: extractBlockCommentProse,
+        findComments: findCLikeComments,
+        isSourceCode: true,
+    },
+    {
+        languageIds: ['python'],
+        extensions: ['.py', '.pyi'],
+        extract: extractDocstringProse,
+        findComments: findPythonComments,
+        isSourceCode: true,
+    },
+];
+
+// Adds support for another language, or replaces the extractor for one we
+// already support.
+export function registerProseLanguage(language: ProseLanguage) {
+    proseLanguages.unshift(language);
+}
+
+function findProseLanguage(languageId?: string): ProseLanguage | undefined {
+    return proseLanguages.find(language => languageId !== undefined && language.languageIds.includes(languageId));
+}
+
+export function isProseLanguage(languageId: string): boolean {
+    return findProseLanguage(languageId) !== undefined;
+}
+
+export function getProseLanguageIds(): string[] {
+    return Array.from(new Set(([] as string[]).concat(...proseLanguages.map(language => language.languageIds))));
+}
+
+// extensions of the files to check when checking a whole folder
+export function getProseFileExtensions(includeSourceCode = false): string[] {
+    const languages = proseLanguages.filter(language => includeSourceCode || !language.isSourceCode);
+    return Array.from(new Set(([] as string[]).concat(...languages.map(language => language.extensions))));
+}
+
+// guess the language id of a file that isn't open in an editor
+export function getLanguageIdForPath(filePath: string): string {
+    const extension = path.extname(filePath).toLowerCase();
+    const language = proseLanguages.find(l => l.extensions.includes(extension));
+    return language ? language.languageIds[0] : 'plaintext';
+}
+
+// languages we don't know are read as plain text
+export function extractProse(content: string, languageId?: string, blockCache?: RunCache<ProseSegment[]>): ProseSegment[] {
+    const language = findProseLanguage(languageId);
+    return language ? language.extract(content, blockCache) : extractPlaintextProse(content);
+}
+
+// languages we don't know are read as plain text here too
+export function findComments(content: string, languageId?: string): SourceComment[] {
+    const language = findProseLanguage(languageId);
+    if (!language) {
+        return findPlaintextComments(content);
+    }
+    return language.findComments ? language.findComments(content) : [];
+}
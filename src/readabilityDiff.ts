@@ -0,0 +1,192 @@
+'use strict';
+// Compares two versions of a document, to tell whether a change made it easier
+// or harder to read and which paragraphs changed.
+
+import {ReadabilityReport, SentenceReport} from './analysis';
+import {Formula} from './formulas';
+import {extractProse, getSourceRange} from './prose';
+import {addTextCounts, emptyTextCounts} from './readabilityTests';
+
+// the most paragraph pairs we'll compare to match up the changed paragraphs
+const maxDiffCells = 1000000;
+
+export interface DocumentVersion {
+    // where the version came from, eg a file name or 'HEAD'
+    label: string;
+    content: string;
+    // VS Code language id, used to find the prose
+    languageId?: string;
+    report: ReadabilityReport;
+}
+
+export interface ParagraphVersion {
+    text: string;
+    // offsets into the version's content
+    start: number;
+    end: number;
+    // the line the paragraph starts on, from 1
+    line: number;
+    score: number;
+    sentences: SentenceReport[];
+}
+
+// before is undefined for new paragraphs, and after for deleted ones
+export interface ParagraphChange {
+    before?: ParagraphVersion;
+    after?: ParagraphVersion;
+}
+
+export interface ScoreChange {
+    beforeScore: number;
+    afterScore: number;
+    // afterScore - beforeScore, to one decimal place
+    change: number;
+    easier: boolean;
+    harder: boolean;
+}
+
+export interface ReadabilityDiff extends ScoreChange {
+    before: string;
+    after: string;
+    formulaName: string;
+    lowerScoreIsEasier: boolean;
+    changes: ParagraphChange[];
+}
+
+// each prose segment of the version, with the sentences in it
+function getParagraphs(version: DocumentVersion, formula: Formula): ParagraphVersion[] {
+    const sentences = version.report.sentences;
+    let next = 0;
+    let line = 1;
+    let lineCountedTo = 0;
+    return extractProse(version.content, version.languageId).map(segment => {
+        const [start, end] = getSourceRange(segment, 0, segment.text.length);
+        for (; lineCountedTo < start; lineCountedTo++) {
+            if (version.content[lineCountedTo] === '\n') {
+                line += 1;
+            }
+        }
+        while (next < sentences.length && sentences[next].start < start) {
+            next += 1;
+        }
+        const own: SentenceReport[] = [];
+        while (next < sentences.length && sentences[next].start < end) {
+            own.push(sentences[next]);
+            next += 1;
+        }
+        const counts = own.reduce((total, sentence) => addTextCounts(total, sentence.counts), emptyTextCounts());
+        return {text: segment.text.trim(), start, end, line, score: counts.words > 0 ? formula.docScore(counts) : 0, sentences: own};
+    });
+}
+
+// Pairs up paragraphs with the same text, using the longest common subsequence
+// of the paragraphs that differ between the two versions.
+function diffParagraphs(before: ParagraphVersion[], after: ParagraphVersion[]): ParagraphChange[] {
+    const normalize = (paragraph: ParagraphVersion) => paragraph.text.replace(/\s+/g, ' ');
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && normalize(before[prefix]) === normalize(after[prefix])) {
+        prefix += 1;
+    }
+    let suffix = 0;
+    while (suffix < before.length - prefix && suffix < after.length - prefix &&
+            normalize(before[before.length - 1 - suffix]) === normalize(after[after.length - 1 - suffix])) {
+        suffix += 1;
+    }
+    const oldTexts = before.slice(prefix, before.length - suffix).map(normalize);
+    const newTexts = after.slice(prefix, after.length - suffix).map(normalize);
+    // rewrites too big to match up are paired in order
+    if (oldTexts.length * newTexts.length > maxDiffCells) {
+        return Array.from({length: Math.max(oldTexts.length, newTexts.length)}, (_, k) => ({
+            before: k < oldTexts.length ? before[prefix + k] : undefined,
+            after: k < newTexts.length ? after[prefix + k] : undefined,
+        }));
+    }
+
+    // lengths[i][j] is the LCS length of oldTexts[i:] and newTexts[j:]
+    const lengths = Array.from({length: oldTexts.length + 1}, () => new Array<number>(newTexts.length + 1).fill(0));
+    for (let i = oldTexts.length - 1; i >= 0; i--) {
+        for (let j = newTexts.length - 1; j >= 0; j--) {
+            lengths[i][j] = oldTexts[i] === newTexts[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    // a removed paragraph followed by an added one is the same paragraph, edited
+    const changes: ParagraphChange[] = [];
+    let removed: ParagraphVersion[] = [];
+    let added: ParagraphVersion[] = [];
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            changes.push({before: removed[k], after: added[k]});
+        }
+        removed = [];
+        added = [];
+    };
+    let i = 0;
+    let j = 0;
+    while (i < oldTexts.length || j < newTexts.length) {
+        if (i < oldTexts.length && j < newTexts.length && oldTexts[i] === newTexts[j]) {
+            flush();
+            i += 1;
+            j += 1;
+        } else if (j >= newTexts.length || (i < oldTexts.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+            removed.push(before[prefix + i]);
+            i += 1;
+        } else {
+            added.push(after[prefix + j]);
+            j += 1;
+        }
+    }
+    flush();
+    return changes;
+}
+
+// Both reports must have been scored with the same formula.
+export function compareScores(before: ReadabilityReport, after: ReadabilityReport): ScoreChange {
+    // small enough differences to round away aren't a change
+    const change = Number((after.score - before.score).toFixed(1));
+    return {
+        beforeScore: before.score,
+        afterScore: after.score,
+        change,
+        easier: after.lowerScoreIsEasier ? change < 0 : change > 0,
+        harder: after.lowerScoreIsEasier ? change > 0 : change < 0,
+    };
+}
+
+export function compareVersions(before: DocumentVersion, after: DocumentVersion, formula: Formula): ReadabilityDiff {
+    return Object.assign(compareScores(before.report, after.report), {
+        before: before.label,
+        after: after.label,
+        formulaName: after.report.formulaName,
+        lowerScoreIsEasier: after.report.lowerScoreIsEasier,
+        changes: diffParagraphs(getParagraphs(before, formula), getParagraphs(after, formula)),
+    });
+}
+
+// the sentences only in the old version of a paragraph, and only in the new one
+export function getChangedSentences(change: ParagraphChange): {removed: SentenceReport[], added: SentenceReport[]} {
+    const before = change.before ? change.before.sentences : [];
+    const after = change.after ? change.after.sentences : [];
+    const beforeTexts = new Set(before.map(sentence => sentence.text));
+    const afterTexts = new Set(after.map(sentence => sentence.text));
+    return {
+        removed: before.filter(sentence => !afterTexts.has(sentence.text)),
+        added: after.filter(sentence => !beforeTexts.has(sentence.text)),
+    };
+}
+
+// eg '+2.5', or '' if there's no change
+export function formatChange(change: ScoreChange): string {
+    if (!change.easier && !change.harder) {
+        return '';
+    }
+    return `${change.change > 0 ? '+' : ''}${change.change}`;
+}
+
+// eg '+2.5 (easier)', or 'no change'
+export function describeChange(change: ScoreChange): string {
+    if (!change.easier && !change.harder) {
+        return 'no change';
+    }
+    return `${formatChange(change)} (${change.easier ? 'easier' : 'harder'})`;
+}
@@ -1,23 +1,119 @@
 'use strict';
 
+import {Glossary} from './glossary';
+import {countWordSyllables} from './syllables';
+import * as tokenizer from './tokenizer';
+import {WordToken} from './tokenizer';
+
+// The counts that every formula below is calculated from. Counts for separate
+// pieces of text can be added together, so they can be cached per paragraph.
+export interface TextCounts {
+    sentences: number;
+    words: number;
+    characters: number;
+    syllables: number;
+    polysyllabicWords: number;
+    monosyllabicWords: number;
+    // words with more than six letters
+    longWords: number;
+    daleChallDifficultWords: number;
+    spacheDifficultWords: number;
+    // words that would be difficult, but are familiar thanks to the glossary
+    daleChallGlossaryWords: number;
+    spacheGlossaryWords: number;
+}
+
+// counts for text in the given language. The Dale-Chall and Spache word lists
+// are English, so other languages have no difficult words
+export function getTextCounts(docContent: string, glossary?: Glossary, language = 'en'): TextCounts {
+    const words = tokenizer.tokenizeWords(docContent);
+    const syllables = words.map(word => word.kind === 'word' ? countWordSyllables(word.word, language) : 1);
+    const daleChallDifficultWords = language === 'en' ? filterDifficultWords(words, 'dale-chall') : [];
+    const spacheDifficultWords = language === 'en' ? filterDifficultWords(words, 'spache') : [];
+    const daleChallGlossaryWords = glossary ? daleChallDifficultWords.filter(match => glossary.has(match.word)).length : 0;
+    const spacheGlossaryWords = glossary ? spacheDifficultWords.filter(match => glossary.has(match.word)).length : 0;
+
+    return {
+        sentences: countSentences(docContent),
+        words: words.length,
+        characters: tokenizer.countWordCharacters(words),
+        syllables: syllables.reduce((total, count) => total + count, 0),
+        polysyllabicWords: words.filter((word, i) => word.kind === 'word' && syllables[i] >= 3).length,
+        monosyllabicWords: syllables.filter(count => count === 1).length,
+        longWords: words.filter(word => (word.word.match(/[\p{L}\p{N}]/gu) || []).length > 6).length,
+        daleChallDifficultWords: daleChallDifficultWords.length - daleChallGlossaryWords,
+        spacheDifficultWords: spacheDifficultWords.length - spacheGlossaryWords,
+        daleChallGlossaryWords,
+        spacheGlossaryWords,
+    };
+}
+
+// the counts we would have had if there was no glossary
+export function withoutGlossary(counts: TextCounts): TextCounts {
+    return Object.assign({}, counts, {
+        daleChallDifficultWords: counts.daleChallDifficultWords + counts.daleChallGlossaryWords,
+        spacheDifficultWords: counts.spacheDifficultWords + counts.spacheGlossaryWords,
+        daleChallGlossaryWords: 0,
+        spacheGlossaryWords: 0,
+    });
+}
+
+export function emptyTextCounts(): TextCounts {
+    return {
+        sentences: 0,
+        words: 0,
+        characters: 0,
+        syllables: 0,
+        polysyllabicWords: 0,
+        monosyllabicWords: 0,
+        longWords: 0,
+        daleChallDifficultWords: 0,
+        spacheDifficultWords: 0,
+        daleChallGlossaryWords: 0,
+        spacheGlossaryWords: 0,
+    };
+}
+
+export function addTextCounts(a: TextCounts, b: TextCounts): TextCounts {
+    return {
+        sentences: a.sentences + b.sentences,
+        words: a.words + b.words,
+        characters: a.characters + b.characters,
+        syllables: a.syllables + b.syllables,
+        polysyllabicWords: a.polysyllabicWords + b.polysyllabicWords,
+        monosyllabicWords: a.monosyllabicWords + b.monosyllabicWords,
+        longWords: a.longWords + b.longWords,
+        daleChallDifficultWords: a.daleChallDifficultWords + b.daleChallDifficultWords,
+        spacheDifficultWords: a.spacheDifficultWords + b.spacheDifficultWords,
+        daleChallGlossaryWords: a.daleChallGlossaryWords + b.daleChallGlossaryWords,
+        spacheGlossaryWords: a.spacheGlossaryWords + b.spacheGlossaryWords,
+    };
+}
+
+// at least one sentence, so formulas don't divide by zero
+function docSentences(counts: TextCounts): number {
+    return counts.sentences > 0 ? counts.sentences : 1;
+}
+
 // Calculate readability based on the Automated Readability Index formula
 function calculateAutomatedReadability(sentences: number, words: number, characters: number): number {
     return (4.71 * (characters / words)) + (0.5 * (words / sentences)) - 21.43;
 }
 
-export function getAutomatedReadabilitySentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const characters = getCharacterCount(sentence);
+export function getAutomatedReadabilitySentenceFromCounts(counts: TextCounts): number {
+    return calculateAutomatedReadability(1, counts.words, counts.characters);
+}
 
-    return calculateAutomatedReadability(1, words, characters);
+export function getAutomatedReadabilityDocFromCounts(counts: TextCounts): number {
+    return Math.ceil(calculateAutomatedReadability(docSentences(counts), counts.words, counts.characters));
 }
 
-export function getAutomatedReadabilityDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const characters = getCharacterCount(docContent);
+export function getAutomatedReadabilitySentence(sentence: string): number {
+    return getAutomatedReadabilitySentenceFromCounts(getTextCounts(sentence));
+}
 
-    return Math.ceil(calculateAutomatedReadability(sentences, words, characters));
+export function getAutomatedReadabilityDoc(docContent: string): number {
+    return getAutomatedReadabilityDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Coleman-Liau index formula
@@ -25,19 +121,20 @@ function calculateColemanLiau(sentences: number, words: number, characters: numb
     return (0.0588 * ((characters / words) * 100)) - (0.296 * ((sentences / words) * 100)) - 15.8;
 }
 
-export function getColemanLiauSentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const characters = getCharacterCount(sentence);
+export function getColemanLiauSentenceFromCounts(counts: TextCounts): number {
+    return calculateColemanLiau(1, counts.words, counts.characters);
+}
 
-    return calculateColemanLiau(1, words, characters);
+export function getColemanLiauDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateColemanLiau(docSentences(counts), counts.words, counts.characters));
 }
 
-export function getColemanLiauDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const characters = getCharacterCount(docContent);
+export function getColemanLiauSentence(sentence: string): number {
+    return getColemanLiauSentenceFromCounts(getTextCounts(sentence));
+}
 
-    return Math.round(calculateColemanLiau(sentences, words, characters));
+export function getColemanLiauDoc(docContent: string): number {
+    return getColemanLiauDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Dale-Chall Readability Formula
@@ -50,22 +147,25 @@ function calculateDaleChall(sentences: number, words: number, difficultWordPerce
     return score;
 }
 
-export function getDaleChallSentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const difficultWordCount = getDifficultWordCount(sentence, 'dale-chall');
-    const difficultWordPercentage = (difficultWordCount / words) * 100;
+export function getDaleChallSentenceFromCounts(counts: TextCounts): number {
+    const difficultWordPercentage = (counts.daleChallDifficultWords / counts.words) * 100;
 
-    return calculateDaleChall(1, words, difficultWordPercentage);
+    return calculateDaleChall(1, counts.words, difficultWordPercentage);
 }
 
-export function getDaleChallDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const difficultWordCount = getDifficultWordCount(docContent, 'dale-chall');
-    const difficultWordPercentage = (difficultWordCount / words) * 100;
+export function getDaleChallDocFromCounts(counts: TextCounts): number {
+    const difficultWordPercentage = (counts.daleChallDifficultWords / counts.words) * 100;
 
     // Return number with up to one decimal point
-    return Number(calculateDaleChall(sentences, words, difficultWordPercentage).toFixed(1));
+    return Number(calculateDaleChall(docSentences(counts), counts.words, difficultWordPercentage).toFixed(1));
+}
+
+export function getDaleChallSentence(sentence: string): number {
+    return getDaleChallSentenceFromCounts(getTextCounts(sentence));
+}
+
+export function getDaleChallDoc(docContent: string): number {
+    return getDaleChallDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Flesch Readability Ease formula
@@ -73,19 +173,20 @@ function calculateFlesch(sentences: number, words: number, syllables: number): n
     return 206.835 - (1.015 * (words / sentences)) - (84.6 * (syllables / words));
 }
 
-export function getFleschSentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const syllables = getSyllableCount(sentence);
+export function getFleschSentenceFromCounts(counts: TextCounts): number {
+    return calculateFlesch(1, counts.words, counts.syllables);
+}
 
-    return calculateFlesch(1, words, syllables);
+export function getFleschDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateFlesch(docSentences(counts), counts.words, counts.syllables));
 }
 
-export function getFleschDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const syllables = getSyllableCount(docContent);
+export function getFleschSentence(sentence: string): number {
+    return getFleschSentenceFromCounts(getTextCounts(sentence));
+}
 
-    return Math.round(calculateFlesch(sentences, words, syllables));
+export function getFleschDoc(docContent: string): number {
+    return getFleschDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Flesch-Kincaid Grade Level formula
@@ -93,19 +194,20 @@ function calculateFleschKincaid(sentences: number, words: number, syllables: num
     return (0.39 * (words / sentences)) + (11.8 * (syllables / words)) - 15.59;
 }
 
-export function getFleschKincaidSentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const syllables = getSyllableCount(sentence);
+export function getFleschKincaidSentenceFromCounts(counts: TextCounts): number {
+    return Math.round(calculateFleschKincaid(1, counts.words, counts.syllables));
+}
 
-    return Math.round(calculateFleschKincaid(1, words, syllables));
+export function getFleschKincaidDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateFleschKincaid(docSentences(counts), counts.words, counts.syllables));
 }
 
-export function getFleschKincaidDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const syllables = getSyllableCount(docContent);
+export function getFleschKincaidSentence(sentence: string): number {
+    return getFleschKincaidSentenceFromCounts(getTextCounts(sentence));
+}
 
-    return Math.round(calculateFleschKincaid(sentences, words, syllables));
+export function getFleschKincaidDoc(docContent: string): number {
+    return getFleschKincaidDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Flesch-Kincaid Grade Level formula
@@ -113,19 +215,22 @@ function calculateSMOG(sentences: number, polysyllables: number): number {
     return 3.1291 + (1.0430 * Math.sqrt(polysyllables * (30 / sentences)));
 }
 
-export function getSMOGSentence(sentence: string): number {
-    const polysyllables = getPolysyllabicWordCount(sentence);
-
+export function getSMOGSentenceFromCounts(counts: TextCounts): number {
     // SMOG needs at least 30 sentences to calculate its score properly...
     //  so we fake it here. I'm not sure if this is actually required.
-    return calculateSMOG(30, polysyllables * 30);
+    return calculateSMOG(30, counts.polysyllabicWords * 30);
 }
 
-export function getSMOGDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const polysyllables = getPolysyllabicWordCount(docContent);
+export function getSMOGDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateSMOG(docSentences(counts), counts.polysyllabicWords));
+}
 
-    return Math.round(calculateSMOG(sentences, polysyllables));
+export function getSMOGSentence(sentence: string): number {
+    return getSMOGSentenceFromCounts(getTextCounts(sentence));
+}
+
+export function getSMOGDoc(docContent: string): number {
+    return getSMOGDocFromCounts(getTextCounts(docContent));
 }
 
 // Calculate readability based on the Spache Readability Formula
@@ -133,104 +238,244 @@ function calculateSpache(sentences: number, words: number, difficultWords: numbe
     return 0.659 + (0.121 * (words / sentences)) + (0.082 * ((difficultWords / words) * 100));
 }
 
-export function getSpacheSentence(sentence: string): number {
-    const words = getWordCount(sentence);
-    const difficultWords = getDifficultWordCount(sentence, 'spache');
+export function getSpacheSentenceFromCounts(counts: TextCounts): number {
+    return calculateSpache(1, counts.words, counts.spacheDifficultWords);
+}
 
-    return calculateSpache(1, words, difficultWords);
+export function getSpacheDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateSpache(docSentences(counts), counts.words, counts.spacheDifficultWords));
+}
+
+export function getSpacheSentence(sentence: string): number {
+    return getSpacheSentenceFromCounts(getTextCounts(sentence));
 }
 
 export function getSpacheDoc(docContent: string): number {
-    const sentences = getSentenceCount(docContent);
-    const words = getWordCount(docContent);
-    const difficultWords = getDifficultWordCount(docContent, 'spache');
+    return getSpacheDocFromCounts(getTextCounts(docContent));
+}
 
-    return Math.round(calculateSpache(1, words, difficultWords));
+// Calculate readability based on Fernández Huerta's Spanish adaptation of Flesch Reading Ease
+function calculateFernandezHuerta(sentences: number, words: number, syllables: number): number {
+    return 206.84 - (60 * (syllables / words)) - (1.02 * (words / sentences));
 }
 
-// helper functions
-function getWordCount(docContent: string): number {
-    let wordCount = 0;
-    wordCount = (docContent.match(/\w+/g) || []).length;
+export function getFernandezHuertaSentenceFromCounts(counts: TextCounts): number {
+    return calculateFernandezHuerta(1, counts.words, counts.syllables);
+}
 
-    return wordCount;
+export function getFernandezHuertaDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateFernandezHuerta(docSentences(counts), counts.words, counts.syllables));
 }
 
-function getCharacterCount(docContent: string): number {
-    // Strip all whitespace characters
-    docContent = docContent.replace(/\s+/g, '');
+export function getFernandezHuertaSentence(sentence: string): number {
+    return getFernandezHuertaSentenceFromCounts(getTextCounts(sentence, undefined, 'es'));
+}
 
-    let charCount = 0;
-    charCount = docContent.length;
+export function getFernandezHuertaDoc(docContent: string): number {
+    return getFernandezHuertaDocFromCounts(getTextCounts(docContent, undefined, 'es'));
+}
 
-    return charCount;
+// Calculate readability based on the Szigriszt-Pazos Perspicuity index, for Spanish
+function calculateSzigrisztPazos(sentences: number, words: number, syllables: number): number {
+    return 206.835 - (62.3 * (syllables / words)) - (words / sentences);
 }
 
-function getSentenceCount(docContent: string): number {
-    // Approximate sentence count by finding word, followed by punctuation (.?!) and whitespace or end of string
-    // as well as any words that match : or just a linebreak at the end of an unpunctuated line (eg: lists)
-    // TODO: account for Markdown tables?
-    let sentenceCount = 0;
-    // need to do `|| []` to account for words matching that case not existing
-    sentenceCount = (docContent.match(/\w[.?!](\s|$)/g) || []).length + (docContent.match(/\w:?\n/g) || []).length;
+export function getSzigrisztPazosSentenceFromCounts(counts: TextCounts): number {
+    return calculateSzigrisztPazos(1, counts.words, counts.syllables);
+}
+
+export function getSzigrisztPazosDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateSzigrisztPazos(docSentences(counts), counts.words, counts.syllables));
+}
+
+export function getSzigrisztPazosSentence(sentence: string): number {
+    return getSzigrisztPazosSentenceFromCounts(getTextCounts(sentence, undefined, 'es'));
+}
+
+export function getSzigrisztPazosDoc(docContent: string): number {
+    return getSzigrisztPazosDocFromCounts(getTextCounts(docContent, undefined, 'es'));
+}
+
+// Calculate readability based on Amstad's German adaptation of Flesch Reading Ease
+function calculateAmstad(sentences: number, words: number, syllables: number): number {
+    return 180 - (words / sentences) - (58.5 * (syllables / words));
+}
+
+export function getAmstadSentenceFromCounts(counts: TextCounts): number {
+    return calculateAmstad(1, counts.words, counts.syllables);
+}
+
+export function getAmstadDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateAmstad(docSentences(counts), counts.words, counts.syllables));
+}
+
+export function getAmstadSentence(sentence: string): number {
+    return getAmstadSentenceFromCounts(getTextCounts(sentence, undefined, 'de'));
+}
+
+export function getAmstadDoc(docContent: string): number {
+    return getAmstadDocFromCounts(getTextCounts(docContent, undefined, 'de'));
+}
+
+// Calculate readability based on the first Wiener Sachtextformel, for German
+function calculateWienerSachtextformel(sentences: number, words: number, polysyllables: number, longWords: number, monosyllables: number): number {
+    const polysyllablePercentage = (polysyllables / words) * 100;
+    const longWordPercentage = (longWords / words) * 100;
+    const monosyllablePercentage = (monosyllables / words) * 100;
+    return (0.1935 * polysyllablePercentage) + (0.1672 * (words / sentences)) + (0.1297 * longWordPercentage) - (0.0327 * monosyllablePercentage) - 0.875;
+}
+
+export function getWienerSachtextformelSentenceFromCounts(counts: TextCounts): number {
+    return calculateWienerSachtextformel(1, counts.words, counts.polysyllabicWords, counts.longWords, counts.monosyllabicWords);
+}
+
+export function getWienerSachtextformelDocFromCounts(counts: TextCounts): number {
+    // Return number with up to one decimal point
+    return Number(calculateWienerSachtextformel(docSentences(counts), counts.words, counts.polysyllabicWords, counts.longWords, counts.monosyllabicWords).toFixed(1));
+}
+
+export function getWienerSachtextformelSentence(sentence: string): number {
+    return getWienerSachtextformelSentenceFromCounts(getTextCounts(sentence, undefined, 'de'));
+}
+
+export function getWienerSachtextformelDoc(docContent: string): number {
+    return getWienerSachtextformelDocFromCounts(getTextCounts(docContent, undefined, 'de'));
+}
+
+// Calculate readability based on the Kandel-Moles French adaptation of Flesch Reading Ease
+function calculateKandelMoles(sentences: number, words: number, syllables: number): number {
+    return 207 - (1.015 * (words / sentences)) - (73.6 * (syllables / words));
+}
+
+export function getKandelMolesSentenceFromCounts(counts: TextCounts): number {
+    return calculateKandelMoles(1, counts.words, counts.syllables);
+}
+
+export function getKandelMolesDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateKandelMoles(docSentences(counts), counts.words, counts.syllables));
+}
+
+export function getKandelMolesSentence(sentence: string): number {
+    return getKandelMolesSentenceFromCounts(getTextCounts(sentence, undefined, 'fr'));
+}
+
+export function getKandelMolesDoc(docContent: string): number {
+    return getKandelMolesDocFromCounts(getTextCounts(docContent, undefined, 'fr'));
+}
+
+// Calculate readability based on the Gulpease index, for Italian
+function calculateGulpease(sentences: number, words: number, characters: number): number {
+    return 89 + (((300 * sentences) - (10 * characters)) / words);
+}
+
+export function getGulpeaseSentenceFromCounts(counts: TextCounts): number {
+    return calculateGulpease(1, counts.words, counts.characters);
+}
+
+export function getGulpeaseDocFromCounts(counts: TextCounts): number {
+    return Math.round(calculateGulpease(docSentences(counts), counts.words, counts.characters));
+}
+
+export function getGulpeaseSentence(sentence: string): number {
+    return getGulpeaseSentenceFromCounts(getTextCounts(sentence, undefined, 'it'));
+}
+
+export function getGulpeaseDoc(docContent: string): number {
+    return getGulpeaseDocFromCounts(getTextCounts(docContent, undefined, 'it'));
+}
+
+// helper functions, all built on the shared tokenizer so they agree with each other
+export function getWordCount(docContent: string): number {
+    return tokenizer.countWords(docContent);
+}
+
+// letters and digits, not counting whitespace or punctuation
+export function getCharacterCount(docContent: string): number {
+    return tokenizer.countCharacters(docContent);
+}
+
+export function getSentenceCount(docContent: string): number {
+    const sentenceCount = countSentences(docContent);
 
     // Return the count if more than zero sentences found, otherwise return 1
     return (sentenceCount > 0 ? sentenceCount : 1);
 }
 
-function getSyllableCount(docContent: string): number {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const syllable = require('syllable');
-    let syllableCount = 0;
+// Like getSentenceCount, but can return zero
+export function countSentences(docContent: string): number {
+    return tokenizer.countSentences(docContent);
+}
+
+// every word has at least one syllable, including numbers and urls
+export function getSyllableCount(docContent: string, language = 'en'): number {
+    return tokenizer.tokenizeWords(docContent).reduce((total, word) => total + (word.kind === 'word' ? countWordSyllables(word.word, language) : 1), 0);
+}
 
-    syllableCount = syllable(docContent);
+// Why a word counts against a formula: it isn't on the Dale-Chall or Spache
+// list of familiar words, or it has three or more syllables
+export type DifficultWordReason = 'dale-chall' | 'spache' | 'polysyllabic';
 
-    return syllableCount;
+export interface WordMatch {
+    word: string;
+    // offset of the word in the text it was found in
+    index: number;
 }
 
-function getDifficultWordCount(docContent: string, vocabulary: string): number {
-    let familiarWords;
-    switch (vocabulary) {
-        case 'dale-chall':
-            // eslint-disable-next-line @typescript-eslint/no-var-requires
-            familiarWords = require('dale-chall');
-            break;
-        case 'spache':
-            // eslint-disable-next-line @typescript-eslint/no-var-requires
-            familiarWords = require('spache');
-            break;
-        default:
-            return 0;
+// The familiar word lists, loaded the first time they're needed. Sets make
+// looking up every word of a long document cheap.
+const familiarWordSets = new Map<string, Set<string>>();
+
+function getFamiliarWords(vocabulary: string): Set<string> | undefined {
+    let familiarWords = familiarWordSets.get(vocabulary);
+    if (!familiarWords) {
+        switch (vocabulary) {
+            case 'dale-chall':
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                familiarWords = new Set<string>(require('dale-chall'));
+                break;
+            case 'spache':
+                // eslint-disable-next-line @typescript-eslint/no-var-requires
+                familiarWords = new Set<string>(require('spache'));
+                break;
+            default:
+                return undefined;
+        }
+        familiarWordSets.set(vocabulary, familiarWords);
     }
+    return familiarWords;
+}
 
-    let difficultWordCount = 0;
-    let wordList = [];
+function filterDifficultWords(words: WordToken[], vocabulary: string, glossary?: Glossary): WordToken[] {
+    const familiarWords = getFamiliarWords(vocabulary);
+    if (!familiarWords) {
+        return [];
+    }
 
-    // Grab words from document
-    wordList = docContent.match(/\w+/g) || [];
+    // the word lists are all lowercase, and numbers and urls aren't words we can look up
+    return words.filter(match => match.kind === 'word' && !familiarWords.has(match.word.toLowerCase()) && !(glossary && glossary.has(match.word)));
+}
 
-    for (let i = 0; i < wordList.length; i++) {
-        const word = wordList[i];
-        difficultWordCount += (familiarWords.indexOf(word) > -1) ? 1 : 0;
-    }
+// words that aren't on the given familiar word list, or in the glossary if there is one
+export function getDifficultWords(docContent: string, vocabulary: string, glossary?: Glossary): WordMatch[] {
+    return filterDifficultWords(tokenizer.tokenizeWords(docContent), vocabulary, glossary);
+}
 
-    return difficultWordCount;
+export function getDifficultWordCount(docContent: string, vocabulary: string, glossary?: Glossary): number {
+    return getDifficultWords(docContent, vocabulary, glossary).length;
 }
 
-function getPolysyllabicWordCount(docContent: string): number {
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const syllable = require('syllable');
-    let polysyllabicWordCount = 0;
-    let wordList = [];
+export function getPolysyllabicWords(docContent: string, language = 'en'): WordMatch[] {
+    return tokenizer.tokenizeWords(docContent).filter(match => match.kind === 'word' && countWordSyllables(match.word, language) >= 3);
+}
 
-    // Grab words from document
-    wordList = docContent.match(/\w+/g) || [];
+export function getPolysyllabicWordCount(docContent: string, language = 'en'): number {
+    return getPolysyllabicWords(docContent, language).length;
+}
 
-    for (let i = 0; i < wordList.length; i++) {
-        const word = wordList[i];
-        polysyllabicWordCount += (syllable(word) >= 3 ) ? 1 : 0;
+// the words behind the given reason, eg all polysyllabic words
+export function getWordsFor(docContent: string, reason: DifficultWordReason, glossary?: Glossary, language = 'en'): WordMatch[] {
+    if (reason === 'polysyllabic') {
+        return getPolysyllabicWords(docContent, language);
     }
-    // console.log('Polysyllabic words: ' + polysyllabicWordCount);
-
-    return polysyllabicWordCount;
+    return getDifficultWords(docContent, reason, glossary);
 }
@@ -0,0 +1,245 @@
+'use strict';
+// Output formats for the command line checker.
+
+import {describeGlossaryEffect, ReadabilityReport, SentenceReport} from './analysis';
+import {escapeHtml, formatScore} from './formatting';
+import {isHarderThan} from './formulas';
+import {describeChange, getChangedSentences, ParagraphChange, ParagraphVersion, ReadabilityDiff} from './readabilityDiff';
+
+export interface SentenceLocation {
+    text: string;
+    score: number;
+    // lines and columns start at 1
+    startLine: number;
+    startColumn: number;
+    endLine: number;
+    endColumn: number;
+}
+
+export interface FileResult {
+    // path of the file, relative to the working directory
+    file: string;
+    report: ReadabilityReport;
+    maxScore: number;
+    passed: boolean;
+    difficultSentences: SentenceLocation[];
+}
+
+export const outputFormats = ['human', 'json', 'sarif', 'junit'];
+
+function getLineAndColumn(content: string, offset: number): [number, number] {
+    const before = content.slice(0, offset);
+    const line = (before.match(/\n/g) || []).length + 1;
+    const column = offset - (before.lastIndexOf('\n') + 1) + 1;
+    return [line, column];
+}
+
+export function locateSentence(content: string, sentence: SentenceReport): SentenceLocation {
+    const [startLine, startColumn] = getLineAndColumn(content, sentence.start);
+    const [endLine, endColumn] = getLineAndColumn(content, sentence.end);
+    return {text: sentence.text, score: sentence.score, startLine, startColumn, endLine, endColumn};
+}
+
+// files can fail on their score, or only because of their sentences
+function isScoreTooDifficult(result: FileResult): boolean {
+    return isHarderThan(result.report, result.report.score, result.maxScore);
+}
+
+function describeDifficultSentences(result: FileResult): string {
+    const count = result.difficultSentences.length;
+    return `${count} sentence${count === 1 ? ' is' : 's are'} too difficult to read`;
+}
+
+function formatHuman(results: FileResult[]): string {
+    const lines: string[] = [];
+    results.forEach(result => {
+        let status = 'ok';
+        if (!result.passed) {
+            status = isScoreTooDifficult(result) ? 'FAIL' : `FAIL: ${describeDifficultSentences(result)}`;
+        }
+        lines.push(`${result.file}: ${result.report.formulaName} score ${result.report.score} (max ${result.maxScore}) ${status}`);
+        const glossaryEffect = describeGlossaryEffect(result.report);
+        if (glossaryEffect) {
+            lines.push(`  ${glossaryEffect}`);
+        }
+        result.difficultSentences.forEach(sentence => {
+            const text = sentence.text.replace(/\s+/g, ' ');
+            lines.push(`  ${result.file}:${sentence.startLine}:${sentence.startColumn} score ${formatScore(sentence.score)}: ${text}`);
+        });
+    });
+
+    const failed = results.filter(result => !result.passed).length;
+    lines.push('');
+    lines.push(`${results.length} file(s) checked, ${failed} too difficult to read`);
+    return lines.join('\n');
+}
+
+function formatJson(results: FileResult[]): string {
+    return JSON.stringify(results.map(result => ({
+        file: result.file,
+        formula: result.report.formula,
+        score: result.report.score,
+        scoreWithoutGlossary: result.report.scoreWithoutGlossary,
+        maxScore: result.maxScore,
+        passed: result.passed,
+        scores: result.report.scores,
+        statistics: result.report.statistics,
+        difficultSentences: result.difficultSentences,
+    })), null, 2);
+}
+
+function formatSarif(results: FileResult[]): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require('../package.json');
+    const sarifResults: any[] = [];
+
+    results.forEach(result => {
+        const uri = result.file.replace(/\\/g, '/');
+        if (!result.passed) {
+            const text = isScoreTooDifficult(result) ?
+                `${result.report.formulaName} score ${result.report.score} is harder to read than the max score of ${result.maxScore}` :
+                `${result.report.formulaName} score ${result.report.score} is within the max score of ${result.maxScore}, but ${describeDifficultSentences(result)}`;
+            sarifResults.push({
+                ruleId: 'difficult-document',
+                level: 'error',
+                message: {text},
+                locations: [{physicalLocation: {artifactLocation: {uri}}}],
+            });
+        }
+        result.difficultSentences.forEach(sentence => {
+            sarifResults.push({
+                ruleId: 'difficult-sentence',
+                level: 'warning',
+                message: {text: `This sentence is difficult to read (${result.report.formulaName} score ${formatScore(sentence.score)})`},
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: {uri},
+                        region: {
+                            startLine: sentence.startLine,
+                            startColumn: sentence.startColumn,
+                            endLine: sentence.endLine,
+                            endColumn: sentence.endColumn,
+                        },
+                    },
+                }],
+            });
+        });
+    });
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: manifest.displayName,
+                    version: manifest.version,
+                    informationUri: manifest.repository.url.replace(/\.git$/, ''),
+                    rules: [
+                        {id: 'difficult-document', shortDescription: {text: 'Document is difficult to read'}},
+                        {id: 'difficult-sentence', shortDescription: {text: 'Sentence is difficult to read'}},
+                    ],
+                },
+            },
+            results: sarifResults,
+        }],
+    }, null, 2);
+}
+
+function formatJunit(results: FileResult[]): string {
+    const failed = results.filter(result => !result.passed).length;
+    const lines: string[] = [];
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    lines.push(`<testsuites name="readability" tests="${results.length}" failures="${failed}">`);
+    lines.push(`  <testsuite name="readability" tests="${results.length}" failures="${failed}">`);
+    results.forEach(result => {
+        const name = escapeHtml(result.file);
+        if (result.passed) {
+            lines.push(`    <testcase classname="readability" name="${name}"/>`);
+            return;
+        }
+        let message = `${result.report.formulaName} score ${result.report.score} (max ${result.maxScore})`;
+        if (!isScoreTooDifficult(result)) {
+            message += `, ${describeDifficultSentences(result)}`;
+        }
+        const details = result.difficultSentences.map(sentence => `${result.file}:${sentence.startLine}:${sentence.startColumn} score ${formatScore(sentence.score)}: ${sentence.text.replace(/\s+/g, ' ')}`);
+        lines.push(`    <testcase classname="readability" name="${name}">`);
+        lines.push(`      <failure message="${escapeHtml(message)}">${escapeHtml(details.join('\n'))}</failure>`);
+        lines.push('    </testcase>');
+    });
+    lines.push('  </testsuite>');
+    lines.push('</testsuites>');
+    return lines.join('\n');
+}
+
+export function formatResults(results: FileResult[], format: string): string {
+    switch (format) {
+        case 'json':
+            return formatJson(results);
+        case 'sarif':
+            return formatSarif(results);
+        case 'junit':
+            return formatJunit(results);
+        default:
+            return formatHuman(results);
+    }
+}
+
+function formatParagraphChangeHuman(diff: ReadabilityDiff, change: ParagraphChange): string[] {
+    const {before, after} = change;
+    const lines: string[] = [];
+    if (before && after) {
+        lines.push(`  changed paragraph at line ${after.line}: ${formatScore(before.score)} -> ${formatScore(after.score)}`);
+    } else if (after) {
+        lines.push(`  new paragraph at line ${after.line}: ${formatScore(after.score)}`);
+    } else if (before) {
+        lines.push(`  removed paragraph at line ${before.line} in ${diff.before}: ${formatScore(before.score)}`);
+    }
+    const {removed, added} = getChangedSentences(change);
+    removed.forEach(sentence => lines.push(`    - score ${formatScore(sentence.score)}: ${sentence.text.replace(/\s+/g, ' ')}`));
+    added.forEach(sentence => lines.push(`    + score ${formatScore(sentence.score)}: ${sentence.text.replace(/\s+/g, ' ')}`));
+    return lines;
+}
+
+function formatParagraphJson(paragraph?: ParagraphVersion) {
+    return paragraph && {
+        line: paragraph.line,
+        score: paragraph.score,
+        text: paragraph.text,
+        sentences: paragraph.sentences.map(sentence => ({text: sentence.text, score: sentence.score})),
+    };
+}
+
+export interface DiffResult {
+    // path of the newer version, relative to the working directory
+    file: string;
+    diff: ReadabilityDiff;
+}
+
+// How each file changed between two versions, in the human or json format
+export function formatDiffs(results: DiffResult[], format: string): string {
+    if (format === 'json') {
+        return JSON.stringify(results.map(({file, diff}) => ({
+            file,
+            before: diff.before,
+            after: diff.after,
+            formula: diff.formulaName,
+            beforeScore: diff.beforeScore,
+            afterScore: diff.afterScore,
+            change: diff.change,
+            easier: diff.easier,
+            harder: diff.harder,
+            changes: diff.changes.map(change => ({before: formatParagraphJson(change.before), after: formatParagraphJson(change.after)})),
+        })), null, 2);
+    }
+
+    const lines: string[] = [];
+    results.forEach(({file, diff}) => {
+        lines.push(`${file}: ${diff.formulaName} score ${formatScore(diff.beforeScore)} in ${diff.before}, ${formatScore(diff.afterScore)} in ${diff.after}: ${describeChange(diff)}`);
+        diff.changes.forEach(change => lines.push(...formatParagraphChangeHuman(diff, change)));
+    });
+    const harder = results.filter(result => result.diff.harder).length;
+    lines.push('');
+    lines.push(`${results.length} file(s) compared, ${harder} harder to read`);
+    return lines.join('\n');
+}
@@ -0,0 +1,183 @@
+'use strict';
+// Prose in reStructuredText documents. Section titles are found by their
+// adornments, and directives, comments, literal blocks and tables are skipped,
+// except for admonitions like .. note:: whose body is prose.
+
+import {ProseKind, ProseSegment, SourceComment} from './prose';
+import {getLines, InlineRule, SourceTextBuilder} from './sourceText';
+
+const inlineRules: InlineRule[] = [
+    {pattern: /\\(.)/g, replacement: match => match[1]},
+    // inline literals, and roles that aren't prose
+    {pattern: /``[^]*?``/g},
+    {pattern: /:(?:math|code|file|samp|kbd|command|envvar|option):`[^`]*`/g},
+    // roles and links with a title keep the title, eg :ref:`the title <target>` or `text <url>`_
+    {pattern: /(?::[\w:+.-]+:)?`([^`<]*?)(\s*<[^`>]*>`(?:__?)?)/g},
+    {pattern: /(?::[\w:+.-]+:)?`([^`]*)(`(?:__?)?)/g},
+    // footnote and citation references
+    {pattern: /\s?\[(?:#[\w-]*|\*|\d+|[\w-]+)\]_/g},
+    {pattern: /\*\*(\S(?:[^*]*\S)?)(\*\*)/g},
+    {pattern: /\*(\S(?:[^*]*\S)?)(\*)/g},
+    // substitutions, which are usually images
+    {pattern: /\|[^|\s][^|]*\|(?:__?)?/g},
+    // "Example::" is shown as "Example:", and a lone "::" isn't shown at all
+    {pattern: /(\s?)::$/gm, replacement: match => match[1] ? '' : ':'},
+];
+
+// directives with prose in their body
+const admonitions = [
+    'admonition', 'attention', 'caution', 'danger', 'error', 'hint', 'important', 'note', 'tip', 'warning',
+    'seealso', 'topic', 'sidebar', 'deprecated', 'versionadded', 'versionchanged',
+];
+
+const adornmentRegex = /^([!-/:-@[-`{-~])\1+\s*$/;
+const tableBorderRegex = /^\s*(?:\+[-=+]+\+|=+(?:\s+=+)+)\s*$/;
+const listItemRegex = /^\s*(?:[-*+•‣⁃]|\(?(?:\d+|#|[a-zA-Z]|[ivxlcdmIVXLCDM]+)[.)])\s+/;
+const fieldRegex = /^\s*:[^:`\s][^:`]*:(?:\s|$)/;
+
+function getIndent(text: string): number {
+    return text.length - text.trimStart().length;
+}
+
+// Reads the prose, and adds the first line of each comment to comments if it's
+// given. Comments in literal blocks and directive bodies are left out.
+function readRestructuredText(content: string, comments?: SourceComment[]): ProseSegment[] {
+    const segments: ProseSegment[] = [];
+    const builder = new SourceTextBuilder(content);
+    const lines = getLines(content);
+
+    // the paragraph or list item we're in the middle of
+    let pending: {start: number, end: number, kind: ProseKind, indent: number} | undefined = undefined;
+    const flush = () => {
+        if (pending) {
+            builder.addInline(pending.start, pending.end, inlineRules);
+            builder.flush(segments, pending.kind);
+            pending = undefined;
+        }
+    };
+
+    // heading levels are set by the order adornment styles first appear in
+    const adornmentStyles: string[] = [];
+    const addHeading = (line: typeof lines[0], style: string) => {
+        if (!adornmentStyles.includes(style)) {
+            adornmentStyles.push(style);
+        }
+        const start = line.start + getIndent(line.text);
+        builder.addInline(start, line.start + line.text.trimEnd().length, inlineRules);
+        builder.flush(segments, 'heading', Math.min(adornmentStyles.indexOf(style) + 1, 6));
+    };
+
+    // lines indented past this are skipped, eg the body of a directive
+    let skipIndent: number | undefined = undefined;
+    // a literal block starts after the paragraph ending in ::
+    let literalIndent: number | undefined = undefined;
+    let inTable = false;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const text = line.text;
+        const indent = getIndent(text);
+        const isBlank = text.trim() === '';
+
+        if (skipIndent !== undefined) {
+            if (isBlank || indent > skipIndent) {
+                continue;
+            }
+            skipIndent = undefined;
+        }
+        if (inTable) {
+            // tables end at the first blank line after a border
+            if (isBlank && tableBorderRegex.test(lines[i - 1].text)) {
+                inTable = false;
+            }
+            continue;
+        }
+        if (isBlank) {
+            flush();
+            if (literalIndent !== undefined) {
+                skipIndent = literalIndent;
+                literalIndent = undefined;
+            }
+            continue;
+        }
+
+        const next = i + 1 < lines.length ? lines[i + 1].text : '';
+        // a title between an overline and an underline
+        const overline = adornmentRegex.exec(text);
+        if (overline && !pending && i + 2 < lines.length && lines[i + 2].text.trim() === text.trim() && lines[i + 1].text.trim() !== '') {
+            addHeading(lines[i + 1], overline[1] + overline[1]);
+            i += 2;
+            continue;
+        }
+        if (tableBorderRegex.test(text)) {
+            flush();
+            inTable = true;
+            continue;
+        }
+        // a title with only an underline
+        const underline = adornmentRegex.exec(next);
+        if (!pending && indent === 0 && underline && next.trim().length >= Math.min(text.trim().length, 3)) {
+            addHeading(line, underline[1]);
+            i += 1;
+            continue;
+        }
+        // transitions
+        if (overline && !pending) {
+            continue;
+        }
+
+        const directive = /^\s*\.\.\s+([\w:-]+)::\s*(.*)$/.exec(text);
+        if (directive) {
+            flush();
+            if (admonitions.includes(directive[1].toLowerCase())) {
+                // the body is read as it is, with its options left out
+                if (directive[2].trim() !== '') {
+                    pending = {start: line.start + text.length - directive[2].length, end: line.start + text.trimEnd().length, kind: 'paragraph', indent};
+                    flush();
+                }
+            } else {
+                skipIndent = indent;
+            }
+            continue;
+        }
+        // comments, link targets, footnotes and citations
+        const comment = /^\s*\.\.(?:\s|$)/.exec(text);
+        if (comment) {
+            flush();
+            if (comments) {
+                comments.push({text: text.slice(comment[0].length), start: line.start + indent, end: line.start + text.length});
+            }
+            skipIndent = indent;
+            continue;
+        }
+        if (!pending && fieldRegex.test(text)) {
+            continue;
+        }
+
+        const item = listItemRegex.exec(text);
+        if (item && (!pending || pending.kind === 'listItem' || indent !== pending.indent)) {
+            flush();
+            pending = {start: line.start + item[0].length, end: line.start + text.trimEnd().length, kind: 'listItem', indent};
+        } else if (pending) {
+            pending.end = line.start + text.trimEnd().length;
+        } else {
+            pending = {start: line.start + indent, end: line.start + text.trimEnd().length, kind: 'paragraph', indent};
+        }
+        if (text.trimEnd().endsWith('::')) {
+            literalIndent = pending.indent;
+        }
+    }
+    flush();
+
+    return segments;
+}
+
+export function extractRestructuredTextProse(content: string): ProseSegment[] {
+    return readRestructuredText(content);
+}
+
+export function findRestructuredTextComments(content: string): SourceComment[] {
+    const comments: SourceComment[] = [];
+    readRestructuredText(content, comments);
+    return comments;
+}
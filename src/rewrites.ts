@@ -0,0 +1,68 @@
+'use strict';
+// Suggested rewrites for difficult sentences, used by the quick fixes.
+
+import {analyzeText} from './analysis';
+import {Glossary} from './glossary';
+import {ReadabilitySettings} from './settings';
+import {checkStyle} from './styleRules';
+import {countWords} from './tokenizer';
+
+export interface Rewrite {
+    // offsets into the sentence
+    start: number;
+    end: number;
+    replacement: string;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// plain-language replacements for any wordy phrases in the sentence
+export function findPlainLanguageRewrites(sentence: string): Rewrite[] {
+    return checkStyle(sentence, {enabledRules: ['complex-phrase'], maxSentenceWords: 0, maxAdverbsPerSentence: 0})
+        .map(match => ({start: match.start, end: match.end, replacement: match.replacement!}));
+}
+
+// Split a sentence in two at a semicolon or a coordinating conjunction, as
+// close to the middle as we can. Returns undefined if there's nowhere to split.
+export function findSplitRewrite(sentence: string): Rewrite | undefined {
+    const splitRegex = /(;\s+|,\s+(and|but|or|so|yet|nor)\s+)(?=[\p{L}\p{N}])/giu;
+    const middle = sentence.length / 2;
+
+    let best: Rewrite | undefined = undefined;
+    let bestDistance = Infinity;
+    let match: RegExpExecArray | null;
+    while ((match = splitRegex.exec(sentence)) !== null) {
+        const start = match.index;
+        const end = match.index + match[0].length;
+
+        // don't leave tiny fragments behind
+        if (countWords(sentence.slice(0, start)) < 3 || countWords(sentence.slice(end)) < 3) {
+            continue;
+        }
+
+        const distance = Math.abs(start - middle);
+        if (distance < bestDistance) {
+            const conjunction = match[2];
+            const nextWord = sentence.slice(end).match(/^[\p{L}\p{M}\p{N}]+/u)![0];
+            // 'and' just joins the two halves, so it isn't needed once they're split
+            const replacement = (conjunction && conjunction.toLowerCase() !== 'and')
+                ? `. ${capitalize(conjunction.toLowerCase())} ${nextWord}`
+                : `. ${capitalize(nextWord)}`;
+            best = {start, end: end + nextWord.length, replacement};
+            bestDistance = distance;
+        }
+    }
+
+    return best;
+}
+
+export function applyRewrite(sentence: string, rewrite: Rewrite): string {
+    return sentence.slice(0, rewrite.start) + rewrite.replacement + sentence.slice(rewrite.end);
+}
+
+// score some text as a single document, for previewing a rewrite
+export function scoreText(text: string, settings: ReadabilitySettings, languageId: string, glossary?: Glossary): number {
+    return analyzeText(text, {formula: settings.formula, customFormulas: settings.customFormulas, languageId, language: settings.language, glossary}).score;
+}
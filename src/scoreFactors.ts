@@ -0,0 +1,115 @@
+'use strict';
+// Explains a sentence's score: the inputs the formula used, and which of them
+// made the sentence hardest to read.
+
+import {formatScore} from './formatting';
+import {Formula} from './formulas';
+import {TextCounts} from './readabilityTests';
+
+export interface ScoreFactor {
+    id: string;
+    name: string;
+    // returns the counts with just this factor set to a typical, easy value
+    toTypical: (counts: TextCounts) => TextCounts;
+}
+
+export interface ScoreInput {
+    name: string;
+    value: string;
+}
+
+export interface ScoreExplanation {
+    score: number;
+    inputs: ScoreInput[];
+    // the factor that makes the score harder by the most, if any do
+    mainFactor?: ScoreFactor;
+    // the score with the main factor at its typical value
+    scoreWithoutMainFactor?: number;
+}
+
+// keep the per-word ratios while changing the number of words
+function withWordCount(counts: TextCounts, words: number): TextCounts {
+    const scale = words / counts.words;
+    return {
+        ...counts,
+        words,
+        characters: counts.characters * scale,
+        syllables: counts.syllables * scale,
+        polysyllabicWords: counts.polysyllabicWords * scale,
+        monosyllabicWords: counts.monosyllabicWords * scale,
+        longWords: counts.longWords * scale,
+        daleChallDifficultWords: counts.daleChallDifficultWords * scale,
+        spacheDifficultWords: counts.spacheDifficultWords * scale,
+    };
+}
+
+export const scoreFactors: ScoreFactor[] = [
+    {
+        id: 'sentence-length',
+        name: 'sentence length',
+        toTypical: counts => withWordCount(counts, 15),
+    },
+    {
+        id: 'syllables',
+        name: 'syllables per word',
+        toTypical: counts => ({...counts, syllables: counts.words * 1.4}),
+    },
+    {
+        id: 'characters',
+        name: 'characters per word',
+        toTypical: counts => ({...counts, characters: counts.words * 4.5}),
+    },
+    {
+        id: 'difficult-words',
+        name: 'difficult words',
+        toTypical: counts => ({...counts, daleChallDifficultWords: counts.words * 0.05, spacheDifficultWords: counts.words * 0.05}),
+    },
+    {
+        id: 'polysyllabic-words',
+        name: 'polysyllabic words',
+        toTypical: counts => ({...counts, polysyllabicWords: counts.words * 0.1}),
+    },
+];
+
+function percentOf(count: number, words: number): string {
+    return `${count} (${formatScore((count / words) * 100)}%)`;
+}
+
+// Scores the sentence counts with the formula, then scores them again with each
+// factor set to a typical value. The factor whose change makes the score
+// easiest is the one that contributed most.
+export function explainSentenceScore(formula: Formula, counts: TextCounts): ScoreExplanation {
+    const score = formula.sentenceScore(counts);
+    const words = Math.max(counts.words, 1);
+
+    const inputs: ScoreInput[] = [
+        {name: 'Words', value: String(counts.words)},
+        {name: 'Syllables per word', value: formatScore(counts.syllables / words)},
+        {name: 'Characters per word', value: formatScore(counts.characters / words)},
+    ];
+    if (formula.difficultWords === 'dale-chall') {
+        inputs.push({name: 'Difficult words', value: percentOf(counts.daleChallDifficultWords, words)});
+    } else if (formula.difficultWords === 'spache') {
+        inputs.push({name: 'Difficult words', value: percentOf(counts.spacheDifficultWords, words)});
+    }
+    inputs.push({name: 'Polysyllabic words', value: percentOf(counts.polysyllabicWords, words)});
+
+    if (counts.words === 0) {
+        return {score, inputs};
+    }
+
+    let mainFactor: ScoreFactor | undefined = undefined;
+    let scoreWithoutMainFactor: number | undefined = undefined;
+    let bestImprovement = 0;
+    scoreFactors.forEach(factor => {
+        const typicalScore = formula.sentenceScore(factor.toTypical(counts));
+        const improvement = formula.lowerScoreIsEasier ? score - typicalScore : typicalScore - score;
+        if (improvement > bestImprovement) {
+            mainFactor = factor;
+            scoreWithoutMainFactor = typicalScore;
+            bestImprovement = improvement;
+        }
+    });
+
+    return {score, inputs, mainFactor, scoreWithoutMainFactor};
+}
@@ -0,0 +1,80 @@
+'use strict';
+// A tree view of the active document's heading sections and their scores.
+
+import * as path from 'path';
+import {Event, EventEmitter, Selection, TextDocument, TreeDataProvider, TreeItem, TreeItemCollapsibleState} from 'vscode';
+
+import {Formula, isHarderThan} from './formulas';
+import {minimumSectionWords, SectionReport} from './sections';
+
+interface OutlineDocument {
+    doc: TextDocument;
+    formula: Formula;
+    maxScore: number;
+    sections: SectionReport[];
+}
+
+class SectionItem extends TreeItem {
+    constructor(public section: SectionReport, outline: OutlineDocument, iconsPath: string) {
+        super(section.title, section.children.length > 0 ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.None);
+        const words = section.counts.words;
+
+        let icon: string;
+        if (section.score === undefined) {
+            icon = 'section-short.svg';
+            this.description = `too short to score · ${words} words`;
+            this.tooltip = `Only ${words} words, which is too few for a stable score (at least ${minimumSectionWords} are needed)`;
+        } else {
+            icon = isHarderThan(outline.formula, section.score, outline.maxScore) ? 'section-difficult.svg' : 'section-readable.svg';
+            this.description = `${section.score} · ${words} words`;
+            this.tooltip = `${outline.formula.name} score: ${section.score} (max ${outline.maxScore})`;
+        }
+        this.iconPath = path.join(iconsPath, icon);
+
+        const position = outline.doc.positionAt(section.start);
+        this.command = {
+            command: 'vscode.open',
+            title: 'Go to section',
+            arguments: [outline.doc.uri, {selection: new Selection(position, position)}],
+        };
+    }
+}
+
+export class SectionOutlineProvider implements TreeDataProvider<SectionItem> {
+    private _outline?: OutlineDocument = undefined;
+    private _onDidChangeTreeData = new EventEmitter<SectionItem | undefined>();
+
+    public readonly onDidChangeTreeData: Event<SectionItem | undefined> = this._onDidChangeTreeData.event;
+
+    // iconsPath is the folder with the section icons, in the extension's resources
+    constructor(private iconsPath: string) {}
+
+    setDocument(doc: TextDocument, sections: SectionReport[], formula: Formula, maxScore: number) {
+        this._outline = {doc, formula, maxScore, sections};
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    clear() {
+        if (this._outline) {
+            this._outline = undefined;
+            this._onDidChangeTreeData.fire(undefined);
+        }
+    }
+
+    getTreeItem(element: SectionItem): TreeItem {
+        return element;
+    }
+
+    getChildren(element?: SectionItem): SectionItem[] {
+        const outline = this._outline;
+        if (!outline) {
+            return [];
+        }
+        const sections = element ? element.section.children : outline.sections;
+        return sections.map(section => new SectionItem(section, outline, this.iconsPath));
+    }
+
+    dispose() {
+        this._onDidChangeTreeData.dispose();
+    }
+}
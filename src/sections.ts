@@ -0,0 +1,81 @@
+'use strict';
+// Scores for each heading section of a document, nested by heading level.
+
+import {ReadabilityReport} from './analysis';
+import {Formula} from './formulas';
+import {addTextCounts, emptyTextCounts, TextCounts} from './readabilityTests';
+
+// formulas are designed for samples of 100 words or more, and swing wildly on
+// anything much shorter
+export const minimumSectionWords = 100;
+
+export interface SectionReport {
+    title: string;
+    depth: number;
+    // from the start of the heading to the next heading at the same or a higher level
+    start: number;
+    end: number;
+    // counts for the whole section, including its subsections
+    counts: TextCounts;
+    // undefined when the section is too short for a stable score
+    score?: number;
+    children: SectionReport[];
+}
+
+function scoreSection(section: SectionReport, ownCounts: Map<SectionReport, TextCounts>, formula: Formula): TextCounts {
+    let counts = ownCounts.get(section) || emptyTextCounts();
+    section.children.forEach(child => {
+        counts = addTextCounts(counts, scoreSection(child, ownCounts, formula));
+    });
+    section.counts = counts;
+    section.score = counts.words >= minimumSectionWords ? formula.docScore(counts) : undefined;
+    return counts;
+}
+
+// Text before the first heading isn't part of any section. documentLength is
+// where the last sections end.
+export function findSections(report: ReadabilityReport, formula: Formula, documentLength: number): SectionReport[] {
+    const sections: SectionReport[] = [];
+    const ordered: SectionReport[] = [];
+    const open: SectionReport[] = [];
+
+    report.headings.forEach(heading => {
+        const section: SectionReport = {
+            title: heading.text,
+            depth: heading.depth,
+            start: heading.start,
+            end: documentLength,
+            counts: emptyTextCounts(),
+            children: [],
+        };
+
+        // a heading closes every open section at its level or deeper
+        while (open.length > 0 && open[open.length - 1].depth >= heading.depth) {
+            open.pop()!.end = heading.start;
+        }
+        if (open.length > 0) {
+            open[open.length - 1].children.push(section);
+        } else {
+            sections.push(section);
+        }
+        open.push(section);
+        ordered.push(section);
+    });
+
+    // both lists are in document order, so each sentence belongs to the last
+    // section that starts before it
+    const ownCounts = new Map<SectionReport, TextCounts>();
+    let current = -1;
+    report.sentences.forEach(sentence => {
+        while (current + 1 < ordered.length && ordered[current + 1].start <= sentence.start) {
+            current++;
+        }
+        if (current >= 0) {
+            const section = ordered[current];
+            ownCounts.set(section, addTextCounts(ownCounts.get(section) || emptyTextCounts(), sentence.counts));
+        }
+    });
+
+    sections.forEach(section => scoreSection(section, ownCounts, formula));
+    return sections;
+}
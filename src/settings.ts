@@ -0,0 +1,189 @@
+'use strict';
+// Settings shared between the extension and the command line checker. Both
+// read the same setting names (and defaults) as contributed in package.json,
+// so that local and CI results match.
+
+import * as fs from 'fs';
+
+import {createCustomFormula, CustomFormula, CustomFormulaDefinition} from './customFormulas';
+import {formulas, getFormulaFor} from './formulas';
+import {readFrontMatter} from './frontMatter';
+import {defaultLanguageId, detectLanguage, getLanguageForTag} from './languages';
+import {AudiencePreset, getPreset, getPresetSetting, readCustomPresets} from './presets';
+import {styleRules, StyleRuleOptions} from './styleRules';
+
+export interface ReadabilitySettings {
+    // the language of the document, see languages.ts
+    language: string;
+    // the configured formula, or the language's default if it's for another language
+    formula: string;
+    // formulas defined in settings, to pass to getFormula()
+    customFormulas: CustomFormula[];
+    // why any custom formulas were left out
+    customFormulaErrors: string[];
+    // the selected audience preset, if there is one
+    preset?: AudiencePreset;
+    customPresets: AudiencePreset[];
+    // why any custom presets were left out, or why the selected one wasn't used
+    customPresetErrors: string[];
+    highlightDifficultSentences: boolean;
+    maxDifficultyScore: number;
+    // 'top', 'percent' or 'threshold', see findDifficultSentences()
+    sentenceFlagging: string;
+    sentenceFlagCount: number;
+    sentenceFlagPercent: number;
+    // the most difficult a sentence can be in 'threshold' mode, which is the
+    // document's max score unless it's set
+    maxSentenceScore: number;
+    // shorter sentences are never flagged
+    minSentenceWords: number;
+    // 'hint', 'information', 'warning' or 'error'
+    sentenceSeverity: string;
+    // shade every sentence by its score
+    heatMap: boolean;
+    // 'off', 'diagnostics' or 'decorations'
+    flagDifficultWords: string;
+    maxFlaggedWords: number;
+    familiarWords: string[];
+    // relative to the workspace folder
+    glossaryFiles: string[];
+    // severity of each style rule by rule id: 'off', 'hint', 'information', 'warning' or 'error'
+    ruleSeverities: {[rule: string]: string};
+    styleRules: StyleRuleOptions;
+}
+
+// looks up a setting by its full name, eg 'readabilityHelper.formula'
+export type SettingGetter = (name: string) => unknown;
+
+function toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.map(item => String(item)) : [];
+}
+
+// custom formulas that are valid, and errors for the ones that aren't
+function readCustomFormulas(value: unknown): [CustomFormula[], string[]] {
+    const customFormulas: CustomFormula[] = [];
+    const errors: string[] = [];
+    const builtInIds = formulas.map(f => f.id);
+    (Array.isArray(value) ? value : []).forEach((definition: CustomFormulaDefinition, i) => {
+        try {
+            const formula = createCustomFormula(definition, builtInIds.concat(customFormulas.map(f => f.id)));
+            customFormulas.push(formula);
+        } catch (err) {
+            const name = (definition && definition.id) || `#${i + 1}`;
+            errors.push(`Custom formula ${name} was skipped: ${err.message}`);
+        }
+    });
+    return [customFormulas, errors];
+}
+
+// Settings for a document in the given language, or the configured language
+// if it isn't known. Use detectLanguage() to find a document's language.
+export function readSettings(get: SettingGetter, documentLanguage?: string): ReadabilitySettings {
+    const language = getLanguageForTag(documentLanguage) || getLanguageForTag(String(get('readabilityHelper.language')));
+    const languageId = language ? language.id : defaultLanguageId;
+    const [customFormulas, customFormulaErrors] = readCustomFormulas(get('readabilityHelper.customFormulas'));
+    const [customPresets, customPresetErrors] = readCustomPresets(get('readabilityHelper.customPresets'));
+    const presetId = get('readabilityHelper.preset');
+    const preset = getPreset(presetId, customPresets);
+    if (presetId && !preset) {
+        customPresetErrors.push(`Preset ${presetId} doesn't exist, so it was ignored`);
+    }
+    const formula = getFormulaFor(String(get('readabilityHelper.formula')), languageId, customFormulas).id;
+    const customFormula = customFormulas.find(f => f.id === formula);
+    // custom formulas have their own max score, unless it's set the same way as the built-in ones
+    const maxDifficultyScoreSetting = get(`readabilityHelper.maxDifficultyScore.${formula}`);
+    const maxDifficultyScore = (maxDifficultyScoreSetting === undefined && customFormula) ? customFormula.maxDifficultyScore : Number(maxDifficultyScoreSetting) || 0;
+    const maxSentenceScore = get('readabilityHelper.maxSentenceScore');
+
+    const ruleSeverities: {[rule: string]: string} = {};
+    styleRules.forEach(rule => {
+        ruleSeverities[rule.id] = String(get(`readabilityHelper.rules.${rule.id}`) || 'off');
+    });
+
+    return {
+        language: languageId,
+        formula,
+        customFormulas,
+        customFormulaErrors,
+        preset,
+        customPresets,
+        customPresetErrors,
+        highlightDifficultSentences: Boolean(get('readabilityHelper.highlightDifficultSentences')),
+        maxDifficultyScore,
+        sentenceFlagging: String(get('readabilityHelper.sentenceFlagging') || 'top'),
+        sentenceFlagCount: Number(get('readabilityHelper.sentenceFlagCount')) || 0,
+        sentenceFlagPercent: Number(get('readabilityHelper.sentenceFlagPercent')) || 0,
+        maxSentenceScore: (maxSentenceScore === undefined || maxSentenceScore === null) ? maxDifficultyScore : Number(maxSentenceScore) || 0,
+        minSentenceWords: Number(get('readabilityHelper.minSentenceWords')) || 0,
+        sentenceSeverity: String(get('readabilityHelper.sentenceSeverity') || 'warning'),
+        heatMap: Boolean(get('readabilityHelper.heatMap')),
+        flagDifficultWords: String(get('readabilityHelper.flagDifficultWords') || 'off'),
+        maxFlaggedWords: Number(get(`readabilityHelper.maxFlaggedWords.${formula}`)) || 0,
+        familiarWords: toStringArray(get('readabilityHelper.familiarWords')),
+        glossaryFiles: toStringArray(get('readabilityHelper.glossaryFiles')),
+        ruleSeverities,
+        styleRules: {
+            enabledRules: styleRules.filter(rule => ruleSeverities[rule.id] !== 'off').map(rule => rule.id),
+            maxSentenceWords: Number(get('readabilityHelper.longSentenceMaxWords')) || 0,
+            maxAdverbsPerSentence: Number(get('readabilityHelper.adverbsMaxPerSentence')) || 0,
+        },
+    };
+}
+
+// Settings with the selected audience preset's values in place of the ones it
+// sets. Settings the preset doesn't set are left as they are.
+export function withPreset(get: SettingGetter): SettingGetter {
+    const [customPresets] = readCustomPresets(get('readabilityHelper.customPresets'));
+    const preset = getPreset(get('readabilityHelper.preset'), customPresets);
+    if (!preset) {
+        return get;
+    }
+    return name => {
+        const value = getPresetSetting(preset, name);
+        return value !== undefined ? value : get(name);
+    };
+}
+
+// Settings for a document, in the language it's written in. Its front matter
+// can override the formula with `readability-formula` and the max score with
+// `readability-max-score`.
+export function readDocumentSettings(get: SettingGetter, content: string, filePath?: string): ReadabilitySettings {
+    const frontMatter = readFrontMatter(content);
+    const formula = frontMatter['readability-formula'];
+    const maxScore = frontMatter['readability-max-score'];
+    const getOverride: SettingGetter = name => {
+        if (name === 'readabilityHelper.formula' && formula) {
+            return formula;
+        }
+        if (name.startsWith('readabilityHelper.maxDifficultyScore.') && maxScore && !isNaN(Number(maxScore))) {
+            return Number(maxScore);
+        }
+        return get(name);
+    };
+    return readSettings(getOverride, detectLanguage(content, filePath, String(get('readabilityHelper.language'))));
+}
+
+// the defaults contributed by the extension's package.json
+export function getDefaultSetting(name: string): unknown {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require('../package.json');
+    for (const section of manifest.contributes.configuration) {
+        if (name in section.properties) {
+            return section.properties[name].default;
+        }
+    }
+    return undefined;
+}
+
+// Load settings from a VS Code settings.json file, which may have comments.
+// Missing settings fall back to the extension's defaults.
+export function loadSettingsFile(settingsPath?: string): SettingGetter {
+    let values: {[name: string]: unknown} = {};
+    if (settingsPath && fs.existsSync(settingsPath)) {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const jsonc = require('jsonc-parser');
+        values = jsonc.parse(fs.readFileSync(settingsPath, 'utf8')) || {};
+    }
+
+    return name => (name in values) ? values[name] : getDefaultSetting(name);
+}
@@ -0,0 +1,112 @@
+'use strict';
+// Helpers for prose extractors that work on the source text directly, rather
+// than on a parsed tree like the Markdown one does.
+
+import {ProseKind, ProseSegment} from './prose';
+
+export interface SourceLine {
+    text: string;
+    // offset of the line's first character in the source
+    start: number;
+}
+
+export function getLines(source: string): SourceLine[] {
+    const lines: SourceLine[] = [];
+    let start = 0;
+    source.split('\n').forEach(line => {
+        // keep \r out of the text, so it never ends up in a segment
+        lines.push({text: line.replace(/\r$/, ''), start});
+        start += line.length + 1;
+    });
+    return lines;
+}
+
+// Markup inside a run of prose, matched by a global pattern. The match is
+// replaced with the replacement if there is one. Otherwise, if the pattern has
+// groups, group 1 is prose to keep and group 2 must be everything after it, so
+// we can tell where group 1 is. Anything else is dropped.
+export interface InlineRule {
+    pattern: RegExp;
+    replacement?: string | ((match: RegExpExecArray) => string);
+}
+
+// Builds the text of a segment from pieces of the source, remembering where
+// each character came from.
+export class SourceTextBuilder {
+    public text = '';
+    public offsets: number[] = [];
+
+    constructor(private source: string) {}
+
+    // copy source[start:end] as it is
+    add(start: number, end: number) {
+        for (let i = start; i < end; i++) {
+            this.text += this.source[i];
+            this.offsets.push(i);
+        }
+    }
+
+    // add text that stands for the source at offset, eg a decoded entity
+    addText(text: string, offset: number) {
+        for (let i = 0; i < text.length; i++) {
+            this.text += text[i];
+            this.offsets.push(offset);
+        }
+    }
+
+    // copy source[start:end] without the inline markup matched by the rules
+    addInline(start: number, end: number, rules: InlineRule[]) {
+        const text = this.source.slice(start, end);
+        // the next match of each rule, which is only looked for again once we've passed it
+        const matches: (RegExpExecArray | null | undefined)[] = rules.map(() => undefined);
+        let position = 0;
+        while (position < text.length) {
+            // the earliest match of any rule, preferring earlier rules
+            let next = -1;
+            rules.forEach((rule, i) => {
+                let match = matches[i];
+                if (match === undefined || (match && match.index < position)) {
+                    rule.pattern.lastIndex = position;
+                    match = rule.pattern.exec(text);
+                    matches[i] = (match && match[0].length > 0) ? match : null;
+                }
+                const found = matches[i];
+                if (found && (next === -1 || found.index < matches[next]!.index)) {
+                    next = i;
+                }
+            });
+            if (next === -1) {
+                break;
+            }
+
+            const match = matches[next]!;
+            const rule = rules[next];
+            this.add(start + position, start + match.index);
+            if (rule.replacement) {
+                const replacement = typeof rule.replacement === 'string' ? rule.replacement : rule.replacement(match);
+                this.addText(replacement, start + match.index);
+            } else if (match[1] !== undefined) {
+                const keptEnd = match.index + match[0].length - (match[2] || '').length;
+                this.addInline(start + keptEnd - match[1].length, start + keptEnd, rules);
+            }
+            position = match.index + match[0].length;
+        }
+        this.add(start + position, end);
+    }
+
+    // adds a line break between lines of the same segment
+    addBreak(offset: number) {
+        if (this.text.length > 0) {
+            this.addText('\n', offset);
+        }
+    }
+
+    // Add the segment to segments if it has any prose in it, and start a new one.
+    flush(segments: ProseSegment[], kind: ProseKind, depth?: number) {
+        if (/[\p{L}\p{N}]/u.test(this.text)) {
+            segments.push({kind, text: this.text, offsets: this.offsets, depth});
+        }
+        this.text = '';
+        this.offsets = [];
+    }
+}
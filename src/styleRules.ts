@@ -0,0 +1,194 @@
+'use strict';
+// Style rules that point out what to fix in a sentence, to go alongside the
+// formulas in readabilityTests.ts which only say how hard the text is.
+
+import {plainLanguagePhrases} from './phrases';
+import {countWords} from './tokenizer';
+
+export interface StyleRuleOptions {
+    // ids of the rules to run
+    enabledRules: string[];
+    maxSentenceWords: number;
+    maxAdverbsPerSentence: number;
+}
+
+export interface StyleMatch {
+    rule: string;
+    message: string;
+    // offsets into the sentence
+    start: number;
+    end: number;
+    // suggested text to replace the match with, if there is one
+    replacement?: string;
+}
+
+export interface StyleRule {
+    id: string;
+    name: string;
+    check: (sentence: string, options: StyleRuleOptions) => StyleMatch[];
+}
+
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// \b only knows about ASCII letters, so we use these to match whole words
+const wordStart = '(?<![\\p{L}\\p{M}\\p{N}])';
+const wordEnd = '(?![\\p{L}\\p{M}\\p{N}])';
+const letters = '[\\p{L}\\p{M}]+';
+
+// find every whole-word match of the given regex source in the sentence
+function findAll(sentence: string, source: string, flags = 'giu'): RegExpExecArray[] {
+    const matches: RegExpExecArray[] = [];
+    const regex = new RegExp(source, flags);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(sentence)) !== null) {
+        matches.push(match);
+    }
+    return matches;
+}
+
+const irregularParticiples = [
+    'been', 'begun', 'bought', 'broken', 'brought', 'built', 'caught', 'chosen', 'done', 'drawn', 'driven',
+    'eaten', 'fallen', 'felt', 'forgotten', 'found', 'given', 'gone', 'grown', 'heard', 'held', 'hidden',
+    'kept', 'known', 'laid', 'led', 'left', 'lost', 'made', 'meant', 'met', 'paid', 'put', 'read', 'run',
+    'said', 'seen', 'sent', 'set', 'shown', 'shut', 'sold', 'spent', 'spoken', 'stolen', 'taken', 'taught',
+    'thought', 'told', 'understood', 'won', 'worn', 'written',
+];
+
+const passiveVoiceRegex = `${wordStart}(am|is|are|was|were|be|been|being)\\s+(${letters}ly\\s+)?(${letters}ed|${irregularParticiples.join('|')})${wordEnd}`;
+
+// words ending in -ly that aren't adverbs
+const notAdverbs = [
+    'apply', 'assembly', 'belly', 'bully', 'daily', 'early', 'family', 'fly', 'folly', 'friendly', 'holy',
+    'homely', 'italy', 'jelly', 'july', 'lily', 'lonely', 'lovely', 'monthly', 'only', 'reply', 'rely',
+    'supply', 'ugly', 'weekly', 'yearly',
+];
+
+// nominalizations, and the verbs that usually read better in their place
+const nominalizations: {[noun: string]: string} = {
+    'analysis': 'analyze',
+    'assessment': 'assess',
+    'completion': 'complete',
+    'consideration': 'consider',
+    'decision': 'decide',
+    'determination': 'determine',
+    'discussion': 'discuss',
+    'establishment': 'establish',
+    'evaluation': 'evaluate',
+    'examination': 'examine',
+    'explanation': 'explain',
+    'facilitation': 'facilitate',
+    'implementation': 'implement',
+    'improvement': 'improve',
+    'investigation': 'investigate',
+    'modification': 'modify',
+    'recommendation': 'recommend',
+    'reduction': 'reduce',
+    'utilization': 'use',
+    'verification': 'verify',
+};
+
+const weaselWords = [
+    'arguably', 'basically', 'clearly', 'essentially', 'extremely', 'fairly', 'generally', 'largely',
+    'mostly', 'obviously', 'quite', 'rather', 'really', 'relatively', 'several', 'significantly',
+    'somewhat', 'various', 'very', 'virtually',
+];
+
+export const styleRules: StyleRule[] = [
+    {
+        id: 'passive-voice',
+        name: 'Passive voice',
+        check: sentence => findAll(sentence, passiveVoiceRegex).map(match => ({
+            rule: 'passive-voice',
+            message: `"${match[0]}" may be passive voice. Consider saying who does the action`,
+            start: match.index,
+            end: match.index + match[0].length,
+        })),
+    },
+    {
+        id: 'adverbs',
+        name: 'Excessive adverbs',
+        check: (sentence, options) => {
+            const adverbs = findAll(sentence, `${wordStart}${letters}ly${wordEnd}`).filter(match => !notAdverbs.includes(match[0].toLowerCase()));
+            if (adverbs.length <= options.maxAdverbsPerSentence) {
+                return [];
+            }
+            return adverbs.map(match => ({
+                rule: 'adverbs',
+                message: `This sentence has ${adverbs.length} adverbs, "${match[0]}" may not be needed`,
+                start: match.index,
+                end: match.index + match[0].length,
+            }));
+        },
+    },
+    {
+        id: 'long-sentence',
+        name: 'Long sentences',
+        check: (sentence, options) => {
+            const words = countWords(sentence);
+            if (words <= options.maxSentenceWords) {
+                return [];
+            }
+            return [{
+                rule: 'long-sentence',
+                message: `This sentence has ${words} words, more than the ${options.maxSentenceWords} allowed`,
+                start: 0,
+                end: sentence.length,
+            }];
+        },
+    },
+    {
+        id: 'nominalization',
+        name: 'Nominalizations',
+        check: sentence => findAll(sentence, `${wordStart}(${Object.keys(nominalizations).join('|')})s?${wordEnd}`).map(match => ({
+            rule: 'nominalization',
+            message: `"${match[0]}" hides an action. Consider using the verb "${nominalizations[match[1].toLowerCase()]}" instead`,
+            start: match.index,
+            end: match.index + match[0].length,
+        })),
+    },
+    {
+        id: 'weasel-words',
+        name: 'Weasel words',
+        check: sentence => findAll(sentence, `${wordStart}(${weaselWords.join('|')})${wordEnd}`).map(match => ({
+            rule: 'weasel-words',
+            message: `"${match[0]}" is vague and weakens the sentence`,
+            start: match.index,
+            end: match.index + match[0].length,
+        })),
+    },
+    {
+        id: 'complex-phrase',
+        name: 'Complex phrases',
+        check: sentence => {
+            // longest first, so we match the whole phrase
+            const phrases = Object.keys(plainLanguagePhrases)
+                .sort((a, b) => b.length - a.length)
+                .map(phrase => escapeRegExp(phrase).replace(/ /g, '\\s+'));
+            return findAll(sentence, `${wordStart}(${phrases.join('|')})${wordEnd}`).map(match => {
+                let replacement = plainLanguagePhrases[match[0].toLowerCase().replace(/\s+/g, ' ')];
+                if (/^[A-Z]/.test(match[0])) {
+                    replacement = replacement[0].toUpperCase() + replacement.slice(1);
+                }
+                return {
+                    rule: 'complex-phrase',
+                    message: `"${match[0]}" can be simpler: "${replacement}"`,
+                    start: match.index,
+                    end: match.index + match[0].length,
+                    replacement,
+                };
+            });
+        },
+    },
+];
+
+export function checkStyle(sentence: string, options: StyleRuleOptions): StyleMatch[] {
+    let matches: StyleMatch[] = [];
+    styleRules.forEach(rule => {
+        if (options.enabledRules.includes(rule.id)) {
+            matches = matches.concat(rule.check(sentence, options));
+        }
+    });
+    return matches;
+}
@@ -0,0 +1,85 @@
+'use strict';
+// Every formula's score for a document side by side, with a consensus grade
+// level and some plain text statistics.
+
+import {ReadabilityReport} from './analysis';
+import {Formula, getFormula} from './formulas';
+
+// a typical adult silent reading speed for non-fiction
+const wordsPerMinute = 238;
+
+export interface FormulaScore {
+    id: string;
+    name: string;
+    score: number;
+    lowerScoreIsEasier: boolean;
+    // approximate grade level for the score, if the formula has one
+    gradeLevel?: number;
+    // true for the formula the document is scored with
+    selected: boolean;
+}
+
+export interface ReportSummary {
+    scores: FormulaScore[];
+    // the average grade level of all the formulas that have one
+    consensusGradeLevel?: number;
+    words: number;
+    sentences: number;
+    averageSentenceLength: number;
+    syllablesPerWord: number;
+    readingMinutes: number;
+}
+
+function round(value: number): number {
+    return Number(value.toFixed(1));
+}
+
+export function summarizeReport(report: ReadabilityReport, customFormulas: Formula[] = []): ReportSummary {
+    const scores: FormulaScore[] = Object.keys(report.scores).map(id => {
+        const formula = getFormula(id, customFormulas);
+        const score = report.scores[id];
+        return {
+            id,
+            name: formula.name,
+            score,
+            lowerScoreIsEasier: formula.lowerScoreIsEasier,
+            gradeLevel: (formula.gradeLevel && isFinite(score)) ? round(formula.gradeLevel(score)) : undefined,
+            selected: id === report.formula,
+        };
+    });
+
+    const gradeLevels = scores.filter(score => score.gradeLevel !== undefined).map(score => score.gradeLevel!);
+    const statistics = report.statistics;
+    const words = statistics.words;
+    const sentences = statistics.sentences;
+
+    return {
+        scores,
+        consensusGradeLevel: gradeLevels.length > 0 ? round(gradeLevels.reduce((a, b) => a + b, 0) / gradeLevels.length) : undefined,
+        words,
+        sentences,
+        averageSentenceLength: sentences > 0 ? round(words / sentences) : 0,
+        syllablesPerWord: words > 0 ? round(statistics.syllables / words) : 0,
+        readingMinutes: words / wordsPerMinute,
+    };
+}
+
+export function formatReadingTime(minutes: number): string {
+    if (minutes < 1) {
+        return 'less than a minute';
+    }
+    const rounded = Math.round(minutes);
+    return `about ${rounded} minute${rounded === 1 ? '' : 's'}`;
+}
+
+// a few lines for the status bar tooltip
+export function describeSummary(summary: ReportSummary): string {
+    const lines: string[] = [];
+    if (summary.consensusGradeLevel !== undefined) {
+        lines.push(`Consensus grade level: ${summary.consensusGradeLevel}`);
+    }
+    lines.push(summary.scores.map(score => `${score.name}: ${score.score}`).join('\n'));
+    lines.push(`${summary.words} words, ${summary.sentences} sentences, ${summary.averageSentenceLength} words per sentence`);
+    lines.push(`Reading time: ${formatReadingTime(summary.readingMinutes)}`);
+    return lines.join('\n');
+}
@@ -0,0 +1,76 @@
+'use strict';
+// Comments that leave parts of a document out of the readability check:
+//
+//   <!-- readability-disable -->           until the next enable comment
+//   <!-- readability-enable -->
+//   <!-- readability-disable-next-line -->  only the line after the comment
+//
+// Other formats use their own comments, eg % readability-disable in LaTeX or
+// .. readability-disable in reStructuredText, and only their own. The comments
+// themselves are left out too, since plain text files would otherwise count
+// them as words.
+
+import {findComments} from './prose';
+
+// [start, end) offsets into the document
+export type SuppressedRange = [number, number];
+
+const markerRegex = /^\s*readability-(disable-next-line|disable|enable)\b/;
+
+// Comments are found by the document's language, so markers shown as code or
+// literal text don't leave anything out.
+export function findSuppressedRanges(content: string, languageId?: string): SuppressedRange[] {
+    const ranges: SuppressedRange[] = [];
+    // most documents have no markers, so don't look for comments in them
+    if (!content.includes('readability-')) {
+        return ranges;
+    }
+    let disabledAt: number | undefined = undefined;
+
+    findComments(content, languageId).forEach(comment => {
+        const match = markerRegex.exec(comment.text);
+        if (!match) {
+            return;
+        }
+        switch (match[1]) {
+            case 'disable':
+                if (disabledAt === undefined) {
+                    disabledAt = comment.start;
+                }
+                break;
+            case 'enable':
+                if (disabledAt !== undefined) {
+                    ranges.push([disabledAt, comment.end]);
+                    disabledAt = undefined;
+                }
+                break;
+            default: {
+                if (disabledAt !== undefined) {
+                    break;
+                }
+                // from the comment to the end of the line after it
+                if (comment.nextLineEnd !== undefined) {
+                    ranges.push([comment.start, comment.nextLineEnd]);
+                    break;
+                }
+                const lineEnd = content.indexOf('\n', comment.end);
+                const nextLineEnd = lineEnd === -1 ? -1 : content.indexOf('\n', lineEnd + 1);
+                ranges.push([comment.start, nextLineEnd === -1 ? content.length : nextLineEnd]);
+                break;
+            }
+        }
+    });
+    if (disabledAt !== undefined) {
+        ranges.push([disabledAt, content.length]);
+    }
+    return ranges;
+}
+
+export function isSuppressed(ranges: SuppressedRange[], offset: number): boolean {
+    return ranges.some(([start, end]) => start <= offset && offset < end);
+}
+
+// true if any of start to end is suppressed
+export function overlapsSuppressed(ranges: SuppressedRange[], start: number, end: number): boolean {
+    return ranges.some(range => range[0] < end && start < range[1]);
+}
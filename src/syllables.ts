@@ -0,0 +1,66 @@
+'use strict';
+// Syllable counting for each supported language. English uses the `syllable`
+// package, the others count the vowel sounds with a few rules per language.
+
+// loaded once, since it's used for every English word
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const syllable: (word: string) => number = require('syllable');
+
+// Spanish and Italian: strong vowels next to each other are separate
+// syllables, while a weak vowel (i, u) joins its neighbour, unless it's accented
+function countRomanceSyllables(word: string, vowels: string, strongVowels: string, accentedWeakVowels: string): number {
+    let count = 0;
+    let previous = '';
+    for (const char of word) {
+        if (!vowels.includes(char)) {
+            previous = '';
+            continue;
+        }
+        const isStrong = strongVowels.includes(char) || accentedWeakVowels.includes(char);
+        const previousIsStrong = strongVowels.includes(previous) || accentedWeakVowels.includes(previous);
+        if (!previous || (isStrong && previousIsStrong)) {
+            count++;
+        }
+        previous = char;
+    }
+    return count;
+}
+
+// German: diphthongs and doubled vowels are one sound, everything else is a vowel each
+function countGermanSyllables(word: string): number {
+    return (word.match(/äu|eu|au|ei|ai|ey|ay|ie|aa|ee|oo|[aeiouyäöü]/g) || []).length;
+}
+
+// French: runs of vowels are one sound, unless split by a diaeresis, and a
+// final e is silent
+function countFrenchSyllables(word: string): number {
+    const groups = word.match(/[ëï][aeiouyàâäéèêîôöùûüœæ]*|[aeiouyàâäéèêîôöùûüœæ]+/g) || [];
+    let count = groups.length;
+    if (count > 1 && /[^aeiouyàâäéèêëîïôöùûüœæ]e(s)?$/.test(word)) {
+        count--;
+    }
+    return count;
+}
+
+// the number of syllables in a single word, always at least one
+export function countWordSyllables(word: string, language = 'en'): number {
+    const lower = word.toLowerCase();
+    let count: number;
+    switch (language) {
+        case 'es':
+            count = countRomanceSyllables(lower, 'aeiouáéíóúü', 'aeoáéó', 'íú');
+            break;
+        case 'it':
+            count = countRomanceSyllables(lower, 'aeiouàèéìíòóù', 'aeoàèéòó', 'ìíù');
+            break;
+        case 'de':
+            count = countGermanSyllables(lower);
+            break;
+        case 'fr':
+            count = countFrenchSyllables(lower);
+            break;
+        default:
+            count = syllable(word);
+    }
+    return Math.max(count, 1);
+}
@@ -0,0 +1,57 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {AnalysisCache, analyzeText} from '../../analysis';
+import {createCustomFormula} from '../../customFormulas';
+
+suite('analysis', () => {
+    test('reports each sentence with its source offsets', () => {
+        const content = '# Title\n\nThe cat sat on the mat. It was *very* happy.\n';
+        const report = analyzeText(content, {languageId: 'markdown', formula: 'flesch-kincaid'});
+        assert.deepStrictEqual(report.sentences.map(sentence => sentence.text), ['Title', 'The cat sat on the mat.', 'It was very happy.']);
+        assert.strictEqual(content.slice(report.sentences[1].start, report.sentences[1].end), 'The cat sat on the mat.');
+        assert.strictEqual(content.slice(report.sentences[2].start, report.sentences[2].end), 'It was *very* happy.');
+        assert.deepStrictEqual(report.headings, [{text: 'Title', depth: 1, start: 2, end: 7}]);
+    });
+
+    test('counts the words and sentences', () => {
+        const report = analyzeText('The cat sat on the mat. It was happy.', {formula: 'flesch-kincaid'});
+        assert.strictEqual(report.statistics.sentences, 2);
+        assert.strictEqual(report.statistics.words, 9);
+        assert.strictEqual(report.formula, 'flesch-kincaid');
+        assert.strictEqual(report.lowerScoreIsEasier, true);
+        assert.strictEqual(report.score, report.scores['flesch-kincaid']);
+        assert.ok('flesch' in report.scores);
+    });
+
+    test('scores longer words and sentences as harder', () => {
+        const easy = analyzeText('The cat sat. The dog ran.', {formula: 'flesch-kincaid'});
+        const hard = analyzeText('Considerable institutional reorganization necessitated comprehensive administrative reevaluation.', {formula: 'flesch-kincaid'});
+        assert.ok(hard.score > easy.score);
+        assert.ok(hard.sentences[0].score > easy.sentences[0].score);
+    });
+
+    test('uses custom formulas', () => {
+        const customFormulas = [createCustomFormula({id: 'words-per-sentence', expression: 'words / sentences'}, [])];
+        const report = analyzeText('One two three. Four five six seven eight.', {formula: 'words-per-sentence', customFormulas});
+        assert.strictEqual(report.formulaName, 'words-per-sentence');
+        assert.strictEqual(report.score, 4);
+        assert.deepStrictEqual(report.sentences.map(sentence => sentence.score), [3, 5]);
+    });
+
+    test('leaves out suppressed sentences', () => {
+        const content = 'Kept here.\n\n<!-- readability-disable -->\nLeft out.\n<!-- readability-enable -->\n\nKept too.';
+        const report = analyzeText(content, {languageId: 'markdown'});
+        assert.deepStrictEqual(report.sentences.map(sentence => sentence.text), ['Kept here.', 'Kept too.']);
+        assert.strictEqual(report.statistics.sentences, 2);
+    });
+
+    test('gives the same report when reusing a cache', () => {
+        const cache = new AnalysisCache();
+        const first = 'First paragraph here.\n\nSecond one.';
+        const second = 'First paragraph here.\n\nSecond one, changed.';
+        analyzeText(first, {cache});
+        assert.deepStrictEqual(analyzeText(second, {cache}), analyzeText(second));
+    });
+});
@@ -0,0 +1,36 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {RunCache} from '../../cache';
+
+suite('cache', () => {
+    test('only computes each value once', () => {
+        const cache = new RunCache<number>();
+        let computed = 0;
+        const compute = () => ++computed;
+        assert.strictEqual(cache.get('a', compute), 1);
+        assert.strictEqual(cache.get('a', compute), 1);
+        assert.strictEqual(cache.get('b', compute), 2);
+        assert.strictEqual(computed, 2);
+    });
+
+    test('forgets values that weren\'t used since the last prune', () => {
+        const cache = new RunCache<string>();
+        cache.get('kept', () => 'first');
+        cache.get('dropped', () => 'first');
+        cache.prune();
+
+        cache.get('kept', () => 'second');
+        cache.prune();
+        assert.strictEqual(cache.get('kept', () => 'third'), 'first');
+        assert.strictEqual(cache.get('dropped', () => 'third'), 'third');
+    });
+
+    test('forgets everything when cleared', () => {
+        const cache = new RunCache<string>();
+        cache.get('a', () => 'first');
+        cache.clear();
+        assert.strictEqual(cache.get('a', () => 'second'), 'second');
+    });
+});
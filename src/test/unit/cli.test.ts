@@ -0,0 +1,65 @@
+'use strict';
+
+import * as assert from 'assert';
+import {spawnSync} from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const cliPath = path.join(__dirname, '..', '..', 'cli.js');
+
+suite('cli', () => {
+    let root: string;
+
+    // runs the command line checker in root, which has no settings file
+    function run(...args: string[]): {status: number | null, stdout: string, stderr: string} {
+        const result = spawnSync(process.execPath, [cliPath, ...args], {cwd: root, encoding: 'utf8'});
+        return {status: result.status, stdout: result.stdout, stderr: result.stderr};
+    }
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'readability-'));
+        fs.writeFileSync(path.join(root, 'easy.md'), 'The cat sat on the mat. It was a good cat.\n');
+        fs.writeFileSync(path.join(root, 'hard.md'), 'Considerable institutional reorganization necessitated comprehensive administrative reevaluation.\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    test('passes files under the max score', () => {
+        const result = run('-f', 'flesch-kincaid', '-m', '8', 'easy.md');
+        assert.strictEqual(result.status, 0);
+        assert.ok(result.stdout.startsWith('easy.md: Flesch-Kincaid Grade Level score'));
+        assert.ok(result.stdout.includes('1 file(s) checked, 0 too difficult to read'));
+    });
+
+    test('fails files over the max score', () => {
+        const result = run('-f', 'flesch-kincaid', '-m', '8', 'easy.md', 'hard.md');
+        assert.strictEqual(result.status, 1);
+        assert.ok(result.stdout.includes('2 file(s) checked, 1 too difficult to read'));
+    });
+
+    test('fails files with sentences over --max-sentence-score, and says so', () => {
+        const result = run('-f', 'flesch-kincaid', '-m', '100', '--max-sentence-score', '12', 'easy.md', 'hard.md');
+        assert.strictEqual(result.status, 1);
+        assert.ok(result.stdout.includes('hard.md: Flesch-Kincaid Grade Level score'));
+        assert.ok(result.stdout.includes('(max 100) FAIL: 1 sentence is too difficult to read'));
+    });
+
+    test('rejects bad usage', () => {
+        [['-f'], ['-f', 'nonsense', 'easy.md'], ['-m', 'ten'], ['-o', 'pdf'], ['--nonsense'], ['-d', 'HEAD', '-o', 'sarif']].forEach(args => {
+            const result = run(...args);
+            assert.strictEqual(result.status, 2, args.join(' '));
+            assert.ok(result.stderr.includes('Usage:'), args.join(' '));
+        });
+    });
+
+    test('writes the chosen format', () => {
+        const result = run('-f', 'flesch-kincaid', '-o', 'json', 'easy.md');
+        const [file] = JSON.parse(result.stdout);
+        assert.strictEqual(file.file, 'easy.md');
+        assert.strictEqual(file.formula, 'flesch-kincaid');
+        assert.strictEqual(file.statistics.sentences, 2);
+    });
+});
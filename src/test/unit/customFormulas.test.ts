@@ -0,0 +1,44 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {createCustomFormula, ExpressionError, parseExpression} from '../../customFormulas';
+import {emptyTextCounts} from '../../readabilityTests';
+
+suite('customFormulas', () => {
+    test('follows the order of operations', () => {
+        assert.strictEqual(parseExpression('1 + 2 * 3 ^ 2')({}), 19);
+        assert.strictEqual(parseExpression('(1 + 2) * -3')({}), -9);
+    });
+
+    test('reads the input names and functions', () => {
+        assert.strictEqual(parseExpression('max(words, 2) / sentences')({words: 10, sentences: 4}), 2.5);
+    });
+
+    test('rejects unknown names, including the object prototype\'s', () => {
+        assert.throws(() => parseExpression('paragraphs / 2'), ExpressionError);
+        assert.throws(() => parseExpression('constructor(1)'), ExpressionError);
+        assert.throws(() => parseExpression('toString'), ExpressionError);
+    });
+
+    test('rejects expressions that don\'t parse', () => {
+        assert.throws(() => parseExpression('1 +'), ExpressionError);
+        assert.throws(() => parseExpression('(1 + 2'), ExpressionError);
+        assert.throws(() => parseExpression('1 2'), ExpressionError);
+    });
+
+    test('checks the definition', () => {
+        assert.throws(() => createCustomFormula({id: 'Bad Id', expression: '1'}, []), ExpressionError);
+        assert.throws(() => createCustomFormula({id: 'flesch', expression: '1'}, ['flesch']), ExpressionError);
+        assert.throws(() => createCustomFormula({id: 'mine', expression: '1', language: 'xx'}, []), ExpressionError);
+    });
+
+    test('scores documents with at least one sentence', () => {
+        const formula = createCustomFormula({id: 'mine', expression: 'words / sentences', direction: 'higher-is-easier', maxDifficultyScore: 4}, []);
+        assert.strictEqual(formula.name, 'mine');
+        assert.strictEqual(formula.lowerScoreIsEasier, false);
+        assert.strictEqual(formula.maxDifficultyScore, 4);
+        assert.strictEqual(formula.docScore({...emptyTextCounts(), words: 12, sentences: 0}), 12);
+        assert.strictEqual(formula.sentenceScore({...emptyTextCounts(), words: 12, sentences: 3}), 12);
+    });
+});
@@ -0,0 +1,62 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {ExportedFile, formatExport} from '../../exports';
+import {summarizeReport} from '../../summary';
+
+function exportFile(file: string, content: string, flagged: number): ExportedFile {
+    const report = analyzeText(content, {formula: 'flesch-kincaid'});
+    return {
+        file,
+        content,
+        report,
+        summary: summarizeReport(report),
+        maxScore: 10,
+        passed: flagged === 0,
+        difficultSentences: report.sentences.slice(report.sentences.length - flagged),
+    };
+}
+
+const easy = exportFile('docs/easy.md', 'The cat sat on the mat.\n', 0);
+const hard = exportFile('docs/a|b <c>.md', 'The cat sat.\nConsiderable reorganization necessitated <comprehensive> reevaluation.\n', 1);
+
+suite('exports', () => {
+    test('highlights the difficult sentences in HTML', () => {
+        const html = formatExport([easy, hard], 'html', 'Docs & more');
+        assert.ok(html.includes('<h1>Docs &amp; more</h1>'));
+        assert.ok(html.includes('docs/a|b &lt;c&gt;.md'));
+        assert.ok(!html.includes('<comprehensive>'));
+        assert.strictEqual((html.match(/<mark[ >]/g) || []).length, 1);
+        assert.ok(html.includes('Line 2'));
+    });
+
+    test('escapes file names and text in Markdown', () => {
+        const markdown = formatExport([easy, hard], 'markdown');
+        const lines = markdown.split('\n');
+        assert.strictEqual(lines[0], '# Readability report');
+        assert.ok(lines.includes('## docs/a\\|b \\<c\\>.md'));
+        // the summary table's rows have the same number of cells as its header
+        const rows = lines.filter(line => line.startsWith('| docs/'));
+        assert.strictEqual(rows.length, 2);
+        rows.forEach(row => assert.strictEqual(row.split(/(?<!\\)\|/).length, lines[2].split('|').length));
+        assert.ok(markdown.includes('- Line 2, score '));
+    });
+
+    test('leaves out the summary table for a single file', () => {
+        const markdown = formatExport([hard], 'markdown');
+        assert.ok(!markdown.includes('| File |'));
+        assert.ok(markdown.includes('too difficult'));
+    });
+
+    test('writes one CSV row per file, quoting where needed', () => {
+        const csv = formatExport([easy, exportFile('docs/a, "b".md', 'The cat sat.\n', 0)], 'csv');
+        const lines = csv.trimEnd().split('\n');
+        assert.strictEqual(lines.length, 3);
+        assert.ok(lines[0].startsWith('File,Formula,Score,Max score,Passed'));
+        assert.ok(lines[0].includes('Flesch-Kincaid Grade Level'));
+        assert.ok(lines[1].startsWith('docs/easy.md,Flesch-Kincaid Grade Level,'));
+        assert.ok(lines[2].startsWith('"docs/a, ""b"".md",'));
+    });
+});
@@ -0,0 +1,27 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {escapeHtml, escapeMarkdown, formatScore, oneLine} from '../../formatting';
+
+suite('formatting', () => {
+    test('formats scores to one decimal place', () => {
+        assert.strictEqual(formatScore(12.345), '12.3');
+        assert.strictEqual(formatScore(7), '7');
+        assert.strictEqual(formatScore(6.96), '7');
+        assert.strictEqual(formatScore(-0.25), '-0.3');
+    });
+
+    test('puts text on one line', () => {
+        assert.strictEqual(oneLine('  One\n  two\tthree  '), 'One two three');
+    });
+
+    test('escapes HTML', () => {
+        assert.strictEqual(escapeHtml('<a href="x">Tom & Jerry</a>'), '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&lt;/a&gt;');
+    });
+
+    test('escapes Markdown, including table cell pipes', () => {
+        assert.strictEqual(escapeMarkdown('docs/my_file*[1]|2.md'), 'docs/my\\_file\\*\\[1\\]\\|2.md');
+        assert.strictEqual(escapeMarkdown('# Not\na heading'), '\\# Not a heading');
+    });
+});
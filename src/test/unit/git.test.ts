@@ -0,0 +1,46 @@
+'use strict';
+
+import * as assert from 'assert';
+import {execFileSync} from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {readRevision, readRevisionSync} from '../../git';
+
+suite('git', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'readability-'));
+        const git = (...args: string[]) => execFileSync('git', args, {cwd: root, stdio: 'ignore'});
+        git('init', '-q');
+        fs.mkdirSync(path.join(root, 'docs'));
+        fs.writeFileSync(path.join(root, 'docs', 'a.md'), 'Committed.\n');
+        git('add', '.');
+        git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'first');
+        fs.writeFileSync(path.join(root, 'docs', 'a.md'), 'Changed.\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    test('reads a file as it was at a revision', async () => {
+        assert.strictEqual(readRevisionSync(path.join(root, 'docs', 'a.md')), 'Committed.\n');
+        assert.strictEqual(await readRevision(path.join(root, 'docs', 'a.md'), 'HEAD'), 'Committed.\n');
+    });
+
+    test('gives undefined for files and revisions git doesn\'t have', async () => {
+        fs.writeFileSync(path.join(root, 'docs', 'new.md'), 'New.\n');
+        assert.strictEqual(readRevisionSync(path.join(root, 'docs', 'new.md')), undefined);
+        assert.strictEqual(await readRevision(path.join(root, 'docs', 'a.md'), 'no-such-branch'), undefined);
+    });
+
+    test('never passes revisions to git as options', async () => {
+        const output = path.join(root, 'output');
+        assert.strictEqual(readRevisionSync(path.join(root, 'docs', 'a.md'), `--output=${output}`), undefined);
+        assert.strictEqual(await readRevision(path.join(root, 'docs', 'a.md'), `--output=${output}`), undefined);
+        assert.strictEqual(fs.existsSync(output), false);
+    });
+});
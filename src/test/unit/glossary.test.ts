@@ -0,0 +1,49 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {analyzeText} from '../../analysis';
+import {Glossary, loadGlossary, parseGlossary} from '../../glossary';
+
+suite('glossary', () => {
+    test('matches words ignoring case and inflections', () => {
+        const glossary = new Glossary(['Dashboard', 'plan', 'deploy', 'query', ' ']);
+        assert.strictEqual(glossary.size, 4);
+        ['dashboard', 'Dashboards', 'planned', 'planning', 'deployed', 'queries', 'queried'].forEach(word => {
+            assert.ok(glossary.has(word), word);
+        });
+        assert.ok(!glossary.has('dash'));
+    });
+
+    test('has the same key for the same words', () => {
+        assert.strictEqual(new Glossary(['b', 'A']).key, new Glossary(['a', 'B', 'a']).key);
+        assert.notStrictEqual(new Glossary(['a']).key, new Glossary(['a', 'b']).key);
+    });
+
+    test('reads one word per line, skipping comments and blank lines', () => {
+        assert.deepStrictEqual(parseGlossary('# product terms\r\nwidget\n\n  gizmo  \n'), ['widget', 'gizmo']);
+    });
+
+    test('loads glossary files relative to the base folder, skipping missing ones', () => {
+        const root = fs.mkdtempSync(path.join(os.tmpdir(), 'readability-'));
+        try {
+            fs.writeFileSync(path.join(root, 'words.txt'), 'widget\n');
+            const glossary = loadGlossary(['gizmo'], ['words.txt', 'missing.txt'], root);
+            assert.deepStrictEqual(glossary.getWords().sort(), ['gizmo', 'widget']);
+        } finally {
+            fs.rmSync(root, {recursive: true, force: true});
+        }
+    });
+
+    test('makes familiar words easier under Dale-Chall', () => {
+        const text = 'The kubernetes cluster runs the terraform plan.';
+        const without = analyzeText(text, {formula: 'dale-chall'});
+        const glossary = new Glossary(['kubernetes', 'cluster', 'terraform']);
+        const withGlossary = analyzeText(text, {formula: 'dale-chall', glossary});
+        assert.ok(withGlossary.score < without.score);
+        assert.strictEqual(withGlossary.scoreWithoutGlossary, without.score);
+    });
+});
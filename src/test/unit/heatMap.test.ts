@@ -0,0 +1,36 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {SentenceReport} from '../../analysis';
+import {getFormula} from '../../formulas';
+import {getHeatLevels, heatLevels} from '../../heatMap';
+import {emptyTextCounts} from '../../readabilityTests';
+import {getDefaultSetting, readSettings} from '../../settings';
+
+function sentencesScoring(...scores: number[]): SentenceReport[] {
+    return scores.map(score => ({text: '', start: 0, end: 0, score, counts: emptyTextCounts()}));
+}
+
+suite('heatMap', () => {
+    test('shades sentences by their score relative to the max', () => {
+        const formula = getFormula('flesch-kincaid');
+        assert.deepStrictEqual(getHeatLevels(sentencesScoring(-2, 1, 5, 9, 10, 11, 25, 100), formula, 10), [0, 0, 1, 2, 2, 3, 4, 4]);
+    });
+
+    test('mirrors formulas where higher scores are easier', () => {
+        const formula = getFormula('flesch');
+        assert.deepStrictEqual(getHeatLevels(sentencesScoring(120, 90, 75, 50, 40, 0), formula, 50), [0, 0, 1, 2, 3, 4]);
+    });
+
+    test('keeps documents of easy sentences out of the difficult levels', () => {
+        const levels = getHeatLevels(sentencesScoring(1, 2, 3, 4), getFormula('flesch-kincaid'), 12);
+        assert.ok(levels.every(level => level < 3));
+        assert.ok(levels.every(level => level >= 0 && level < heatLevels));
+    });
+
+    test('is read with the other settings', () => {
+        assert.strictEqual(readSettings(getDefaultSetting).heatMap, false);
+        assert.strictEqual(readSettings(name => name === 'readabilityHelper.heatMap' ? true : getDefaultSetting(name)).heatMap, true);
+    });
+});
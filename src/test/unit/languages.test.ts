@@ -0,0 +1,47 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {detectLanguage, getLanguageForTag} from '../../languages';
+import {countWordSyllables} from '../../syllables';
+
+suite('languages', () => {
+    test('counts syllables for each language', () => {
+        assert.strictEqual(countWordSyllables('readability'), 5);
+        assert.strictEqual(countWordSyllables('canción', 'es'), 2);
+        assert.strictEqual(countWordSyllables('poesía', 'es'), 4);
+        assert.strictEqual(countWordSyllables('Haus', 'de'), 1);
+        assert.strictEqual(countWordSyllables('Lieder', 'de'), 2);
+        assert.strictEqual(countWordSyllables('maison', 'fr'), 2);
+        assert.strictEqual(countWordSyllables('table', 'fr'), 1);
+        assert.strictEqual(countWordSyllables('Noël', 'fr'), 2);
+        assert.strictEqual(countWordSyllables('città', 'it'), 2);
+    });
+
+    test('counts at least one syllable a word', () => {
+        assert.strictEqual(countWordSyllables('xyz'), 1);
+        assert.strictEqual(countWordSyllables('pfft', 'de'), 1);
+    });
+
+    test('reads language tags', () => {
+        assert.strictEqual(getLanguageForTag('de-AT')!.id, 'de');
+        assert.strictEqual(getLanguageForTag(' ES_mx ')!.id, 'es');
+        assert.strictEqual(getLanguageForTag('pt'), undefined);
+        assert.strictEqual(getLanguageForTag(undefined), undefined);
+    });
+
+    test('detects the language from front matter, then the file name, then the setting', () => {
+        assert.strictEqual(detectLanguage('---\nlang: fr\n---\nBonjour.', 'guide.de.md', 'it'), 'fr');
+        assert.strictEqual(detectLanguage('Hallo.', 'docs/guide.de.md', 'it'), 'de');
+        assert.strictEqual(detectLanguage('Ciao.', 'guide.md', 'it'), 'it');
+        assert.strictEqual(detectLanguage('Hello.', 'guide.pt-BR.md'), 'en');
+    });
+
+    test('scores documents with the formulas for their language', () => {
+        const report = analyzeText('Der Hund läuft schnell nach Hause.', {language: 'de', formula: 'flesch'});
+        assert.strictEqual(report.language, 'de');
+        assert.strictEqual(report.formula, 'amstad');
+        assert.deepStrictEqual(Object.keys(report.scores).sort(), ['amstad', 'wiener-sachtextformel']);
+    });
+});
@@ -0,0 +1,69 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {getPreset, getPresetSetting, presets, readCustomPresets} from '../../presets';
+import {getDefaultSetting, readSettings, SettingGetter, withPreset} from '../../settings';
+
+function withSettings(values: {[name: string]: unknown}): SettingGetter {
+    return name => name in values ? values[name] : getDefaultSetting(name);
+}
+
+suite('presets', () => {
+    test('sets the formula, its max score and the flagging options', () => {
+        const children = getPreset('children')!;
+        assert.strictEqual(getPresetSetting(children, 'readabilityHelper.formula'), 'flesch');
+        assert.strictEqual(getPresetSetting(children, 'readabilityHelper.maxDifficultyScore.flesch'), 80);
+        assert.strictEqual(getPresetSetting(children, 'readabilityHelper.maxDifficultyScore.smog'), undefined);
+        assert.strictEqual(getPresetSetting(children, 'readabilityHelper.sentenceFlagging'), 'threshold');
+        assert.strictEqual(getPresetSetting(children, 'readabilityHelper.heatMap'), undefined);
+    });
+
+    test('overrides the settings it sets, and only those', () => {
+        const settings = readSettings(withPreset(withSettings({
+            'readabilityHelper.preset': 'technical',
+            'readabilityHelper.formula': 'smog',
+            'readabilityHelper.sentenceSeverity': 'error',
+        })));
+        assert.strictEqual(settings.preset && settings.preset.id, 'technical');
+        assert.strictEqual(settings.formula, 'flesch-kincaid');
+        assert.strictEqual(settings.maxDifficultyScore, 12);
+        assert.strictEqual(settings.sentenceFlagCount, 5);
+        assert.strictEqual(settings.sentenceSeverity, 'error');
+    });
+
+    test('reads custom presets, skipping invalid ones', () => {
+        const [customPresets, errors] = readCustomPresets([
+            {id: 'kids-docs', formula: 'spache', maxScore: 3},
+            {id: 'Bad Id', formula: 'flesch'},
+            {id: 'children', formula: 'flesch'},
+            {id: 'no-formula'},
+            {id: 'kids-docs', formula: 'flesch'},
+        ]);
+        assert.deepStrictEqual(customPresets.map(preset => [preset.id, preset.name]), [['kids-docs', 'kids-docs']]);
+        assert.strictEqual(errors.length, 4);
+        assert.strictEqual(getPreset('kids-docs', customPresets), customPresets[0]);
+        assert.strictEqual(getPreset('kids-docs'), undefined);
+    });
+
+    test('uses custom presets from the settings', () => {
+        const settings = readSettings(withPreset(withSettings({
+            'readabilityHelper.preset': 'kids-docs',
+            'readabilityHelper.customPresets': [{id: 'kids-docs', formula: 'spache', maxScore: 3}],
+        })));
+        assert.strictEqual(settings.formula, 'spache');
+        assert.strictEqual(settings.maxDifficultyScore, 3);
+    });
+
+    test('reports presets that don\'t exist', () => {
+        const settings = readSettings(withPreset(withSettings({'readabilityHelper.preset': 'nobody'})));
+        assert.strictEqual(settings.preset, undefined);
+        assert.strictEqual(settings.customPresetErrors.length, 1);
+    });
+
+    test('have formulas that exist', () => {
+        presets.forEach(preset => {
+            assert.strictEqual(readSettings(withPreset(withSettings({'readabilityHelper.preset': preset.id}))).formula, preset.formula);
+        });
+    });
+});
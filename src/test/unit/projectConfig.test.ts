@@ -0,0 +1,73 @@
+'use strict';
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {findProjectConfig, isIgnored, withProjectConfig} from '../../projectConfig';
+import {getDefaultSetting} from '../../settings';
+
+suite('projectConfig', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'readability-'));
+        fs.mkdirSync(path.join(root, 'docs', 'kids'), {recursive: true});
+    });
+
+    teardown(() => {
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+
+    test('finds the nearest config file above the document', () => {
+        fs.writeFileSync(path.join(root, '.readabilityrc'), 'formula: flesch\n');
+        const config = findProjectConfig(path.join(root, 'docs', 'kids', 'a.md'));
+        assert.ok(config);
+        assert.strictEqual(config && config.path, path.join(root, '.readabilityrc'));
+        assert.deepStrictEqual(config && config.errors, []);
+
+        fs.writeFileSync(path.join(root, 'docs', '.readabilityrc.json'), '{"formula": "smog"}');
+        const nearer = findProjectConfig(path.join(root, 'docs', 'kids', 'a.md'));
+        assert.strictEqual(nearer && nearer.path, path.join(root, 'docs', '.readabilityrc.json'));
+    });
+
+    test('applies overrides over the top level, and both over the user\'s settings', () => {
+        fs.writeFileSync(path.join(root, '.readabilityrc'), [
+            'formula: flesch',
+            'maxScore: 60',
+            'overrides:',
+            '  - files: docs/kids/**',
+            '    formula: spache',
+            '    maxScore: 3',
+        ].join('\n'));
+        const config = findProjectConfig(path.join(root, 'a.md'));
+        const userSettings = (name: string) => name === 'readabilityHelper.formula' ? 'smog' : getDefaultSetting(name);
+
+        const get = withProjectConfig(userSettings, config, path.join(root, 'a.md'));
+        assert.strictEqual(get('readabilityHelper.formula'), 'flesch');
+        assert.strictEqual(get('readabilityHelper.maxDifficultyScore.flesch'), 60);
+
+        const getForKids = withProjectConfig(userSettings, config, path.join(root, 'docs', 'kids', 'b.md'));
+        assert.strictEqual(getForKids('readabilityHelper.formula'), 'spache');
+        assert.strictEqual(getForKids('readabilityHelper.maxDifficultyScore.spache'), 3);
+
+        assert.strictEqual(withProjectConfig(userSettings, undefined, path.join(root, 'a.md'))('readabilityHelper.formula'), 'smog');
+    });
+
+    test('ignores files matching the ignore globs', () => {
+        fs.writeFileSync(path.join(root, '.readabilityrc'), 'ignore: [CHANGELOG.md, docs/kids/**]\n');
+        const config = findProjectConfig(path.join(root, 'a.md'));
+        assert.strictEqual(isIgnored(config, path.join(root, 'docs', 'CHANGELOG.md')), true);
+        assert.strictEqual(isIgnored(config, path.join(root, 'docs', 'kids', 'b.md')), true);
+        assert.strictEqual(isIgnored(config, path.join(root, 'docs', 'a.md')), false);
+        assert.strictEqual(isIgnored(undefined, path.join(root, 'a.md')), false);
+    });
+
+    test('reports settings it doesn\'t know', () => {
+        fs.writeFileSync(path.join(root, '.readabilityrc'), 'formulaa: flesch\n');
+        const config = findProjectConfig(path.join(root, 'a.md'));
+        assert.strictEqual(config && config.errors.length, 1);
+        assert.ok(config && config.settings.size === 0);
+    });
+});
@@ -0,0 +1,75 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {extractProse, ProseSegment} from '../../prose';
+
+// the text of each segment, checking it matches the source it came from
+function readProse(content: string, languageId: string): string[] {
+    const segments = extractProse(content, languageId);
+    segments.forEach((segment: ProseSegment) => {
+        assert.strictEqual(segment.offsets.length, segment.text.length);
+        Array.from(segment.text).forEach((char, i) => {
+            if (/\w/.test(char)) {
+                assert.strictEqual(content[segment.offsets[i]], char);
+            }
+        });
+    });
+    return segments.map(segment => segment.text.trim());
+}
+
+suite('prose', () => {
+    test('reads plain text as paragraphs', () => {
+        assert.deepStrictEqual(readProse('One line.\nSame paragraph.\n\nNext one.', 'plaintext'), ['One line.\nSame paragraph.', 'Next one.']);
+    });
+
+    test('ends sentences at unpunctuated plain text lines', () => {
+        assert.deepStrictEqual(readProse('Shopping:\nEggs\nFlour\n\nA sentence that\ngoes on.', 'plaintext'), ['Shopping:', 'Eggs', 'Flour', 'A sentence that\ngoes on.']);
+    });
+
+    test('reads Markdown without its markup or code', () => {
+        const content = '# Title\n\nSome *emphasis* and `code`.\n\n```\nnot prose\n```\n\n- An item\n';
+        const segments = extractProse(content, 'markdown');
+        assert.deepStrictEqual(segments.map(segment => segment.kind), ['heading', 'paragraph', 'listItem']);
+        assert.deepStrictEqual(readProse(content, 'markdown'), ['Title', 'Some emphasis and .', 'An item']);
+    });
+
+    test('reads HTML without its tags or scripts', () => {
+        const content = '<h1>Title</h1>\n<p>Some <b>bold</b> text.</p>\n<script>var x = 1;</script>\n';
+        assert.deepStrictEqual(readProse(content, 'html'), ['Title', 'Some bold text.']);
+    });
+
+    test('reads LaTeX without its commands or maths', () => {
+        const content = '\\documentclass{article}\n\\begin{document}\n\\section{Intro}\nSome \\emph{nice} text. % a comment\n\\begin{equation}\nx = 1\n\\end{equation}\n\\end{document}\n';
+        const prose = readProse(content, 'latex');
+        assert.strictEqual(prose[0], 'Intro');
+        assert.ok(prose.some(text => text.startsWith('Some nice text.')));
+        assert.ok(prose.every(text => !text.includes('x = 1') && !text.includes('comment')));
+    });
+
+    test('reads reStructuredText without its directives or literal blocks', () => {
+        const content = 'Title\n=====\n\nSome *emphasis* here. Example::\n\n    not prose\n\n.. note:: a comment\n';
+        const prose = readProse(content, 'restructuredtext');
+        assert.strictEqual(prose[0], 'Title');
+        assert.ok(prose[1].startsWith('Some emphasis here.'));
+        assert.ok(prose.every(text => !text.includes('not prose')));
+    });
+
+    test('reads AsciiDoc without its comments or listings', () => {
+        const content = '= Title\n\nSome *bold* text.\n\n// a comment\n\n----\nnot prose\n----\n';
+        assert.deepStrictEqual(readProse(content, 'asciidoc'), ['Title', 'Some bold text.']);
+    });
+
+    test('reads the Markdown cells of notebooks', () => {
+        const content = JSON.stringify({cells: [
+            {cell_type: 'markdown', source: ['# Title\n', 'Some text.']},
+            {cell_type: 'code', source: ['x = 1']},
+        ]});
+        assert.deepStrictEqual(readProse(content, 'jupyter-notebook'), ['Title', 'Some text.']);
+    });
+
+    test('reads the comments of source code', () => {
+        assert.deepStrictEqual(readProse('/**\n * Adds two numbers.\n */\nfunction add() {}\n// not a doc comment\n', 'typescript'), ['Adds two numbers.']);
+        assert.deepStrictEqual(readProse('def add():\n    """Adds two numbers."""\n    return 1\n', 'python'), ['Adds two numbers.']);
+    });
+});
@@ -0,0 +1,47 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {getFormula} from '../../formulas';
+import {compareVersions, describeChange, DocumentVersion, getChangedSentences} from '../../readabilityDiff';
+
+function makeVersion(label: string, content: string): DocumentVersion {
+    return {label, content, languageId: 'markdown', report: analyzeText(content, {languageId: 'markdown', formula: 'flesch-kincaid'})};
+}
+
+suite('readabilityDiff', () => {
+    const formula = getFormula('flesch-kincaid');
+
+    test('pairs up the paragraphs that changed', () => {
+        const before = makeVersion('HEAD', 'Same here.\n\nThe cat sat.\n\nGone soon.\n\nSame at the end.');
+        const after = makeVersion('working copy', 'Same here.\n\nThe cat sat on the mat. Considerable reorganization necessitated reevaluation.\n\nSame at the end.\n\nAll new.');
+        const diff = compareVersions(before, after, formula);
+        assert.strictEqual(diff.before, 'HEAD');
+        assert.strictEqual(diff.after, 'working copy');
+        assert.deepStrictEqual(diff.changes.map(change => [change.before && change.before.text, change.after && change.after.text]), [
+            ['The cat sat.', 'The cat sat on the mat. Considerable reorganization necessitated reevaluation.'],
+            ['Gone soon.', undefined],
+            [undefined, 'All new.'],
+        ]);
+        assert.strictEqual(diff.changes[1].before && diff.changes[1].before.line, 5);
+        assert.strictEqual(diff.harder, true);
+        assert.ok(describeChange(diff).endsWith('(harder)'));
+    });
+
+    test('lists the sentences only in one version of a paragraph', () => {
+        const before = makeVersion('before', 'The cat sat. It was happy.');
+        const after = makeVersion('after', 'The cat sat. It was glad.');
+        const [change] = compareVersions(before, after, formula).changes;
+        const {removed, added} = getChangedSentences(change);
+        assert.deepStrictEqual(removed.map(sentence => sentence.text), ['It was happy.']);
+        assert.deepStrictEqual(added.map(sentence => sentence.text), ['It was glad.']);
+    });
+
+    test('finds no change between the same versions', () => {
+        const version = makeVersion('before', 'The cat sat.');
+        const diff = compareVersions(version, {...version, label: 'after'}, formula);
+        assert.deepStrictEqual(diff.changes, []);
+        assert.strictEqual(describeChange(diff), 'no change');
+    });
+});
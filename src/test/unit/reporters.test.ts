@@ -0,0 +1,56 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {FileResult, formatResults, locateSentence} from '../../reporters';
+
+const content = 'The cat sat.\nConsiderable institutional reorganization necessitated comprehensive administrative reevaluation.\n';
+
+function makeResult(maxScore: number, passed: boolean, flagged: number): FileResult {
+    const report = analyzeText(content, {formula: 'flesch-kincaid'});
+    return {
+        file: 'docs/a & b.md',
+        report,
+        maxScore,
+        passed,
+        difficultSentences: report.sentences.slice(1, 1 + flagged).map(sentence => locateSentence(content, sentence)),
+    };
+}
+
+// the SARIF results and the tool that made them
+function readSarif(results: FileResult[]) {
+    const sarif = JSON.parse(formatResults(results, 'sarif'));
+    return {driver: sarif.runs[0].tool.driver, results: sarif.runs[0].results};
+}
+
+suite('reporters', () => {
+    test('locates sentences by line and column', () => {
+        const report = analyzeText(content, {formula: 'flesch-kincaid'});
+        const location = locateSentence(content, report.sentences[1]);
+        assert.deepStrictEqual([location.startLine, location.startColumn, location.endLine], [2, 1, 2]);
+    });
+
+    test('reports files over the max score in SARIF', () => {
+        const {driver, results} = readSarif([makeResult(1, false, 1)]);
+        assert.ok(!driver.informationUri.endsWith('.git'));
+        assert.deepStrictEqual(results.map((result: {ruleId: string}) => result.ruleId), ['difficult-document', 'difficult-sentence']);
+        assert.ok(results[0].message.text.includes('is harder to read than the max score of 1'));
+        assert.strictEqual(results[1].locations[0].physicalLocation.region.startLine, 2);
+    });
+
+    test('says when files only fail because of their sentences', () => {
+        const result = makeResult(100, false, 1);
+        const {results} = readSarif([result]);
+        assert.ok(results[0].message.text.includes('is within the max score of 100, but 1 sentence is too difficult to read'));
+        assert.ok(formatResults([result], 'human').includes('FAIL: 1 sentence is too difficult to read'));
+        assert.ok(formatResults([result], 'junit').includes('(max 100), 1 sentence is too difficult to read'));
+    });
+
+    test('writes a JUnit test case for each file', () => {
+        const junit = formatResults([makeResult(100, true, 0), makeResult(1, false, 1)], 'junit');
+        assert.ok(junit.includes('<testsuites name="readability" tests="2" failures="1">'));
+        assert.ok(junit.includes('<testcase classname="readability" name="docs/a &amp; b.md"/>'));
+        assert.strictEqual((junit.match(/<failure /g) || []).length, 1);
+    });
+});
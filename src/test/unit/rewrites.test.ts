@@ -0,0 +1,43 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {applyRewrite, findPlainLanguageRewrites, findSplitRewrite, scoreText} from '../../rewrites';
+import {getDefaultSetting, readSettings} from '../../settings';
+
+suite('rewrites', () => {
+    test('replaces wordy phrases, keeping the capital', () => {
+        const sentence = 'In order to start, we need to utilize the tool.';
+        const rewrites = findPlainLanguageRewrites(sentence);
+        assert.ok(rewrites.length >= 1);
+        assert.strictEqual(applyRewrite(sentence, rewrites[0]), 'To start, we need to utilize the tool.');
+    });
+
+    test('splits at the conjunction nearest the middle', () => {
+        const sentence = 'We wrote the guide for new staff, but the team found it hard to follow.';
+        const rewrite = findSplitRewrite(sentence);
+        assert.ok(rewrite);
+        assert.strictEqual(rewrite && applyRewrite(sentence, rewrite), 'We wrote the guide for new staff. But the team found it hard to follow.');
+    });
+
+    test('drops "and" and splits at semicolons', () => {
+        const withAnd = 'The build runs every night, and the results go to the team.';
+        const andRewrite = findSplitRewrite(withAnd);
+        assert.strictEqual(andRewrite && applyRewrite(withAnd, andRewrite), 'The build runs every night. The results go to the team.');
+        const withSemicolon = 'The build runs every night; the results go to the team.';
+        const semicolonRewrite = findSplitRewrite(withSemicolon);
+        assert.strictEqual(semicolonRewrite && applyRewrite(withSemicolon, semicolonRewrite), 'The build runs every night. The results go to the team.');
+    });
+
+    test('doesn\'t leave tiny fragments', () => {
+        assert.strictEqual(findSplitRewrite('Yes, and the rest of the sentence goes on for a while.'), undefined);
+        assert.strictEqual(findSplitRewrite('A sentence with nowhere to split.'), undefined);
+    });
+
+    test('scores a rewrite as a document', () => {
+        const settings = readSettings(name => name === 'readabilityHelper.formula' ? 'flesch-kincaid' : getDefaultSetting(name));
+        const long = 'We wrote the guide for new staff members last year, but the whole team found it rather hard to follow.';
+        const rewrite = findSplitRewrite(long);
+        assert.ok(rewrite && scoreText(applyRewrite(long, rewrite), settings, 'plaintext') < scoreText(long, settings, 'plaintext'));
+    });
+});
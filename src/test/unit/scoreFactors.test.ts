@@ -0,0 +1,44 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {getFormula} from '../../formulas';
+import {emptyTextCounts} from '../../readabilityTests';
+import {explainSentenceScore} from '../../scoreFactors';
+
+function countsOf(sentence: string) {
+    return analyzeText(sentence).sentences[0].counts;
+}
+
+suite('scoreFactors', () => {
+    test('lists the inputs the formula uses', () => {
+        const explanation = explainSentenceScore(getFormula('dale-chall'), {...emptyTextCounts(), words: 8, syllables: 12, characters: 36, daleChallDifficultWords: 2, polysyllabicWords: 1});
+        assert.deepStrictEqual(explanation.inputs, [
+            {name: 'Words', value: '8'},
+            {name: 'Syllables per word', value: '1.5'},
+            {name: 'Characters per word', value: '4.5'},
+            {name: 'Difficult words', value: '2 (25%)'},
+            {name: 'Polysyllabic words', value: '1 (12.5%)'},
+        ]);
+    });
+
+    test('blames long words in a short sentence', () => {
+        const formula = getFormula('flesch-kincaid');
+        const explanation = explainSentenceScore(formula, countsOf('Institutionalization necessitates reevaluation.'));
+        assert.strictEqual(explanation.mainFactor && explanation.mainFactor.id, 'syllables');
+        assert.ok(explanation.scoreWithoutMainFactor !== undefined && explanation.scoreWithoutMainFactor < explanation.score);
+    });
+
+    test('blames length in a long sentence of short words', () => {
+        const sentence = 'The cat and the dog and the rat and the bat and the hen and the pig and the cow and the fox all sat in the sun.';
+        const explanation = explainSentenceScore(getFormula('flesch-kincaid'), countsOf(sentence));
+        assert.strictEqual(explanation.mainFactor && explanation.mainFactor.id, 'sentence-length');
+    });
+
+    test('blames nothing in an easy sentence', () => {
+        const explanation = explainSentenceScore(getFormula('flesch-kincaid'), countsOf('The cat sat.'));
+        assert.strictEqual(explanation.mainFactor, undefined);
+        assert.strictEqual(explanation.scoreWithoutMainFactor, undefined);
+    });
+});
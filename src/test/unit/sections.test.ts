@@ -0,0 +1,47 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {getFormula} from '../../formulas';
+import {findSections, minimumSectionWords} from '../../sections';
+
+// a paragraph of the given number of words, in sentences of ten
+function paragraph(words: number): string {
+    const sentences: string[] = [];
+    for (let i = 0; i < words; i += 10) {
+        sentences.push('The cat sat on the mat and it was happy.'.split(' ').slice(0, Math.min(10, words - i)).join(' ').replace(/\.?$/, '.'));
+    }
+    return sentences.join(' ');
+}
+
+suite('sections', () => {
+    const formula = getFormula('flesch-kincaid');
+
+    test('nests sections by heading level', () => {
+        const content = `Intro text.\n\n# One\n\n${paragraph(20)}\n\n## One A\n\n${paragraph(20)}\n\n## One B\n\n${paragraph(20)}\n\n# Two\n\n${paragraph(20)}\n`;
+        const sections = findSections(analyzeText(content, {languageId: 'markdown'}), formula, content.length);
+        assert.deepStrictEqual(sections.map(section => section.title), ['One', 'Two']);
+        assert.deepStrictEqual(sections[0].children.map(section => section.title), ['One A', 'One B']);
+        // sections start where their heading's text does
+        assert.strictEqual(sections[0].start, content.indexOf('One'));
+        assert.strictEqual(sections[0].end, content.indexOf('Two'));
+        assert.strictEqual(sections[0].children[0].end, content.indexOf('One B'));
+        assert.strictEqual(sections[1].end, content.length);
+    });
+
+    test('counts subsections in their parent, but not text before the first heading', () => {
+        const content = `${paragraph(30)}\n\n# One\n\n${paragraph(20)}\n\n## One A\n\n${paragraph(20)}\n`;
+        const [one] = findSections(analyzeText(content, {languageId: 'markdown'}), formula, content.length);
+        // the headings count as sentences of their own
+        assert.strictEqual(one.counts.words, 20 + 20 + 1 + 2);
+        assert.strictEqual(one.children[0].counts.words, 20 + 2);
+    });
+
+    test('only scores sections long enough for a stable score', () => {
+        const content = `# Short\n\n${paragraph(20)}\n\n# Long\n\n${paragraph(minimumSectionWords)}\n`;
+        const [short, long] = findSections(analyzeText(content, {languageId: 'markdown'}), formula, content.length);
+        assert.strictEqual(short.score, undefined);
+        assert.strictEqual(long.score, formula.docScore(long.counts));
+    });
+});
@@ -0,0 +1,65 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText, findDifficultSentences, isPassing} from '../../analysis';
+import {getDefaultSetting, readSettings} from '../../settings';
+
+// scored by words per sentence, so each sentence scores its length
+const wordCount = {id: 'word-count', expression: 'words / sentences', maxDifficultyScore: 5};
+
+function getSettings(values: {[name: string]: unknown}) {
+    return readSettings(name => {
+        const setting = name.replace('readabilityHelper.', '');
+        if (setting in values) {
+            return values[setting];
+        }
+        return setting === 'formula' ? 'word-count' : setting === 'customFormulas' ? [wordCount] : getDefaultSetting(name);
+    });
+}
+
+function flag(content: string, values: {[name: string]: unknown}): string[] {
+    const settings = getSettings(values);
+    const report = analyzeText(content, {formula: settings.formula, customFormulas: settings.customFormulas});
+    return findDifficultSentences(report, settings).map(sentence => sentence.text);
+}
+
+const content = 'One two three. One two three four five six seven eight. One two three four five six. One two three four five six seven. One two.';
+
+suite('sentence flagging', () => {
+    test('flags the hardest few sentences of a difficult document', () => {
+        assert.deepStrictEqual(flag(content, {sentenceFlagging: 'top', sentenceFlagCount: 2, minSentenceWords: 0}), [
+            'One two three four five six seven eight.', 'One two three four five six seven.',
+        ]);
+    });
+
+    test('flags the hardest percentage of sentences', () => {
+        // 30% of 5 sentences rounds up to 2
+        assert.strictEqual(flag(content, {sentenceFlagging: 'percent', sentenceFlagPercent: 30, minSentenceWords: 0}).length, 2);
+    });
+
+    test('flags nothing in a readable document, except by threshold', () => {
+        const readable = {'maxDifficultyScore.word-count': 100, minSentenceWords: 0};
+        assert.deepStrictEqual(flag(content, {...readable, sentenceFlagging: 'top'}), []);
+        assert.deepStrictEqual(flag(content, {...readable, sentenceFlagging: 'threshold', maxSentenceScore: 6}), [
+            'One two three four five six seven eight.', 'One two three four five six seven.',
+        ]);
+    });
+
+    test('never flags sentences under the minimum length', () => {
+        assert.deepStrictEqual(flag(content, {sentenceFlagging: 'threshold', maxSentenceScore: 0, minSentenceWords: 7}), [
+            'One two three four five six seven eight.', 'One two three four five six seven.',
+        ]);
+    });
+
+    test('flags nothing with highlighting off', () => {
+        assert.deepStrictEqual(flag(content, {highlightDifficultSentences: false, sentenceFlagging: 'threshold', maxSentenceScore: 0}), []);
+    });
+
+    test('fails documents with flagged sentences in threshold mode', () => {
+        const settings = getSettings({'maxDifficultyScore.word-count': 100, sentenceFlagging: 'threshold', maxSentenceScore: 6, minSentenceWords: 0});
+        const report = analyzeText(content, {formula: settings.formula, customFormulas: settings.customFormulas});
+        assert.strictEqual(isPassing(report, settings, findDifficultSentences(report, settings)), false);
+        assert.strictEqual(isPassing(report, settings, []), true);
+    });
+});
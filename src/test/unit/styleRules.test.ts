@@ -0,0 +1,56 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {getDefaultSetting, readSettings} from '../../settings';
+import {checkStyle, StyleRuleOptions} from '../../styleRules';
+
+function check(sentence: string, rule: string, options: Partial<StyleRuleOptions> = {}): string[] {
+    return checkStyle(sentence, {enabledRules: [rule], maxSentenceWords: 30, maxAdverbsPerSentence: 1, ...options})
+        .map(match => sentence.slice(match.start, match.end));
+}
+
+suite('styleRules', () => {
+    test('only runs the enabled rules', () => {
+        assert.deepStrictEqual(checkStyle('The report was written very quickly.', {enabledRules: [], maxSentenceWords: 1, maxAdverbsPerSentence: 0}), []);
+    });
+
+    test('finds passive voice', () => {
+        assert.deepStrictEqual(check('The report was written by Sam.', 'passive-voice'), ['was written']);
+        assert.deepStrictEqual(check('Sam wrote the report.', 'passive-voice'), []);
+    });
+
+    test('flags adverbs over the limit', () => {
+        assert.deepStrictEqual(check('She quickly left.', 'adverbs'), []);
+        assert.deepStrictEqual(check('She quickly and quietly left early.', 'adverbs'), ['quickly', 'quietly']);
+    });
+
+    test('flags sentences over the word limit', () => {
+        assert.deepStrictEqual(check('One two three.', 'long-sentence', {maxSentenceWords: 3}), []);
+        assert.deepStrictEqual(check('One two three four.', 'long-sentence', {maxSentenceWords: 3}), ['One two three four.']);
+    });
+
+    test('finds nominalizations and weasel words', () => {
+        assert.deepStrictEqual(check('The implementation is done.', 'nominalization'), ['implementation']);
+        assert.deepStrictEqual(check('It is very various.', 'weasel-words'), ['very', 'various']);
+    });
+
+    test('suggests plain replacements for complex phrases', () => {
+        const [match] = checkStyle('In order to win, practice.', {enabledRules: ['complex-phrase'], maxSentenceWords: 30, maxAdverbsPerSentence: 1});
+        assert.strictEqual(match.replacement, 'To');
+        assert.strictEqual(match.end, 'In order to'.length);
+    });
+
+    test('reads the limits from settings VS Code can store', () => {
+        // a setting can't have a value and also hold other settings
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const names: string[] = [].concat(...require('../../../package.json').contributes.configuration.map((section: {properties: Record<string, unknown>}) => Object.keys(section.properties)));
+        names.forEach(name => {
+            assert.ok(!names.some(other => other.startsWith(`${name}.`)), `${name} has settings nested under it`);
+        });
+
+        const settings = readSettings(getDefaultSetting);
+        assert.strictEqual(settings.styleRules.maxSentenceWords, 30);
+        assert.strictEqual(settings.styleRules.maxAdverbsPerSentence, 1);
+    });
+});
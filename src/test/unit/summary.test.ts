@@ -0,0 +1,54 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {analyzeText} from '../../analysis';
+import {createCustomFormula} from '../../customFormulas';
+import {describeSummary, formatReadingTime, summarizeReport} from '../../summary';
+
+suite('summary', () => {
+    const text = 'The cat sat on the mat. It was a very happy cat.';
+
+    test('lists every formula\'s score, marking the selected one', () => {
+        const report = analyzeText(text, {formula: 'smog'});
+        const summary = summarizeReport(report);
+        assert.deepStrictEqual(summary.scores.map(score => score.id), Object.keys(report.scores));
+        assert.deepStrictEqual(summary.scores.filter(score => score.selected).map(score => score.id), ['smog']);
+        const flesch = summary.scores.find(score => score.id === 'flesch')!;
+        assert.strictEqual(flesch.lowerScoreIsEasier, false);
+        assert.strictEqual(flesch.score, report.scores.flesch);
+    });
+
+    test('averages the grade levels of the formulas that have one', () => {
+        const summary = summarizeReport(analyzeText(text));
+        const gradeLevels = summary.scores.filter(score => score.gradeLevel !== undefined).map(score => score.gradeLevel!);
+        assert.ok(gradeLevels.length > 1);
+        const average = gradeLevels.reduce((a, b) => a + b, 0) / gradeLevels.length;
+        assert.ok(Math.abs(summary.consensusGradeLevel! - average) <= 0.05);
+    });
+
+    test('includes custom formulas, which have no grade level', () => {
+        const customFormulas = [createCustomFormula({id: 'mine', expression: 'words / sentences'}, [])];
+        const summary = summarizeReport(analyzeText(text, {formula: 'mine', customFormulas}), customFormulas);
+        const mine = summary.scores.find(score => score.id === 'mine')!;
+        assert.strictEqual(mine.selected, true);
+        assert.strictEqual(mine.gradeLevel, undefined);
+    });
+
+    test('counts words, sentences and reading time', () => {
+        const summary = summarizeReport(analyzeText(text));
+        assert.strictEqual(summary.words, 12);
+        assert.strictEqual(summary.sentences, 2);
+        assert.strictEqual(summary.averageSentenceLength, 6);
+        assert.ok(describeSummary(summary).includes('12 words, 2 sentences, 6 words per sentence'));
+        assert.strictEqual(formatReadingTime(summary.readingMinutes), 'less than a minute');
+        assert.strictEqual(formatReadingTime(1.2), 'about 1 minute');
+        assert.strictEqual(formatReadingTime(7.6), 'about 8 minutes');
+    });
+
+    test('has no averages for empty documents', () => {
+        const summary = summarizeReport(analyzeText(''));
+        assert.strictEqual(summary.averageSentenceLength, 0);
+        assert.strictEqual(summary.syllablesPerWord, 0);
+    });
+});
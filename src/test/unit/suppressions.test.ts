@@ -0,0 +1,50 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {findSuppressedRanges, isSuppressed} from '../../suppressions';
+
+// the suppressed parts of the content
+function suppressedTexts(content: string, languageId?: string): string[] {
+    return findSuppressedRanges(content, languageId).map(([start, end]) => content.slice(start, end));
+}
+
+suite('suppressions', () => {
+    test('leaves out text between disable and enable', () => {
+        const content = 'A.\n<!-- readability-disable -->\nB.\n<!-- readability-enable -->\nC.';
+        assert.deepStrictEqual(suppressedTexts(content, 'markdown'), ['<!-- readability-disable -->\nB.\n<!-- readability-enable -->']);
+        const [range] = findSuppressedRanges(content, 'markdown');
+        assert.strictEqual(isSuppressed([range], content.indexOf('B.')), true);
+        assert.strictEqual(isSuppressed([range], content.indexOf('C.')), false);
+    });
+
+    test('leaves out the rest of the document without an enable', () => {
+        const content = 'A.\n<!-- readability-disable -->\nB.';
+        assert.deepStrictEqual(suppressedTexts(content, 'markdown'), ['<!-- readability-disable -->\nB.']);
+    });
+
+    test('leaves out the next line with disable-next-line', () => {
+        const content = 'A.\n<!-- readability-disable-next-line -->\nB.\nC.';
+        assert.deepStrictEqual(suppressedTexts(content, 'markdown'), ['<!-- readability-disable-next-line -->\nB.']);
+    });
+
+    test('ignores markers in code', () => {
+        const content = 'Use `<!-- readability-disable -->` like this.\n\n```\n<!-- readability-disable -->\n```\n';
+        assert.deepStrictEqual(suppressedTexts(content, 'markdown'), []);
+    });
+
+    test('reads markers in each language\'s comments', () => {
+        assert.deepStrictEqual(suppressedTexts('A.\n% readability-disable-next-line\nB.\nC.', 'latex'), ['% readability-disable-next-line\nB.']);
+        assert.deepStrictEqual(suppressedTexts('A.\n.. readability-disable-next-line\nB.\nC.', 'restructuredtext'), ['.. readability-disable-next-line\nB.']);
+        assert.deepStrictEqual(suppressedTexts('A.\n// readability-disable-next-line\nB.\nC.', 'asciidoc'), ['// readability-disable-next-line\nB.']);
+        assert.deepStrictEqual(suppressedTexts('// readability-disable-next-line\n/** B. */\nC();', 'typescript'), ['// readability-disable-next-line\n/** B. */']);
+        assert.deepStrictEqual(suppressedTexts('# readability-disable-next-line\n"""B."""\n', 'python'), ['# readability-disable-next-line\n"""B."""']);
+    });
+
+    test('leaves out the next line of a notebook cell', () => {
+        const content = JSON.stringify({cells: [{cell_type: 'markdown', source: ['<!-- readability-disable-next-line -->\n', 'B.\n', 'C.']}]});
+        const [text] = suppressedTexts(content, 'jupyter-notebook');
+        assert.ok(text.includes('B.'));
+        assert.ok(!text.includes('C.'));
+    });
+});
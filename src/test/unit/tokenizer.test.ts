@@ -0,0 +1,44 @@
+'use strict';
+
+import * as assert from 'assert';
+
+import {countWords, splitSentences, tokenizeWords} from '../../tokenizer';
+
+function sentenceTexts(text: string): string[] {
+    return splitSentences(text).map(sentence => sentence.text);
+}
+
+suite('tokenizer', () => {
+    test('splits sentences at their end punctuation', () => {
+        assert.deepStrictEqual(sentenceTexts('The cat sat. Did it? It did!'), ['The cat sat.', 'Did it?', 'It did!']);
+    });
+
+    test('gives the offsets of each sentence', () => {
+        const text = 'One here.  Two there.';
+        splitSentences(text).forEach(sentence => {
+            assert.strictEqual(text.slice(sentence.start, sentence.end), sentence.text);
+        });
+    });
+
+    test('keeps abbreviations and initials in the sentence', () => {
+        assert.deepStrictEqual(sentenceTexts('Dr. Smith met John F. Kennedy.'), ['Dr. Smith met John F. Kennedy.']);
+        assert.deepStrictEqual(sentenceTexts('See p. 12 for more, e.g. the table.'), ['See p. 12 for more, e.g. the table.']);
+        assert.deepStrictEqual(sentenceTexts('Smith et al. found it.'), ['Smith et al. found it.']);
+    });
+
+    test('ends sentences at abbreviations that are also words', () => {
+        assert.deepStrictEqual(sentenceTexts('The answer is no. We left early.'), ['The answer is no.', 'We left early.']);
+        assert.deepStrictEqual(sentenceTexts('Try plan B. It works.'), ['Try plan B.', 'It works.']);
+        assert.deepStrictEqual(sentenceTexts('Turn onto Main St. It is nice.'), ['Turn onto Main St.', 'It is nice.']);
+    });
+
+    test('reads numbers, contractions and URLs as single words', () => {
+        const words = tokenizeWords('It\'s 3.14 at https://example.com/a.b today.');
+        assert.deepStrictEqual(words.map(word => word.word), ['It\'s', '3.14', 'at', 'https://example.com/a.b', 'today']);
+        assert.deepStrictEqual(words.map(word => word.kind), ['word', 'number', 'word', 'url', 'word']);
+    });
+
+    test('counts words', () => {
+        assert.strictEqual(countWords('A well-known, naïve idea.'), 4);
+    });
+});
@@ -0,0 +1,186 @@
+'use strict';
+// Splits text into sentences and words. Every count the formulas use comes
+// from here, so the sentences we highlight are the ones we count.
+
+export type WordKind = 'word' | 'number' | 'url';
+
+export interface WordToken {
+    word: string;
+    // offset of the word in the text it was found in
+    index: number;
+    kind: WordKind;
+}
+
+export interface SentenceToken {
+    text: string;
+    // offsets into the text
+    start: number;
+    end: number;
+}
+
+// letters (including accents), digits and the marks that join them, so that
+// "naïve", "don't", "well-known", "3.14" and "v1.2.3" are all single words
+const wordPart = '[\\p{L}\\p{M}\\p{N}]+';
+const urlPattern = '(?:https?:\\/\\/|www\\.)[^\\s<>()]*[^\\s<>().,;:!?\'"]';
+const wordPattern = `${wordPart}(?:(?:['’.\\-]|,(?=\\p{N}))${wordPart})*`;
+const wordRegex = new RegExp(`${urlPattern}|${wordPattern}`, 'gu');
+
+// abbreviations that are followed by a period but don't end a sentence, lowercase
+const abbreviations = [
+    'dr', 'mr', 'mrs', 'ms', 'prof', 'sr', 'jr', 'mt', 'ft', 'vol', 'fig', 'figs', 'eq', 'pp',
+    'cf', 'vs', 'approx', 'ca', 'dept', 'gov', 'jan', 'feb', 'apr',
+    'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+];
+// Abbreviations that are also words, or often do end a sentence, as in "Main
+// St.", so we only go on if the next word is lowercase. "No." and "p." also go on before a
+// number, as in "No. 5" or "p. 12".
+const sentenceEndingAbbreviations = ['etc', 'inc', 'ltd', 'co', 'corp', 'no', 'est', 'gen', 'al', 'p', 'mar', 'st'];
+const numberAbbreviations = ['no', 'p'];
+// capitalised words that usually start a sentence rather than continue a
+// name, so "Plan B. It works." is two sentences but "John F. Kennedy" is one
+const sentenceStarters = [
+    'a', 'i', 'the', 'it', 'its', 'this', 'that', 'these', 'those', 'there', 'here', 'then', 'we', 'you', 'he',
+    'she', 'they', 'our', 'my', 'your', 'his', 'her', 'their', 'in', 'on', 'at', 'to', 'for', 'of', 'by', 'with',
+    'from', 'as', 'and', 'but', 'or', 'so', 'if', 'when', 'while', 'after', 'before', 'also', 'however', 'now',
+    'next', 'some', 'all', 'no', 'not', 'yes', 'one', 'each', 'every', 'what', 'how', 'why', 'who', 'where',
+];
+
+export function tokenizeWords(text: string): WordToken[] {
+    const words: WordToken[] = [];
+    wordRegex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = wordRegex.exec(text)) !== null) {
+        let kind: WordKind = 'word';
+        if (/^(https?:|www\.)/i.test(match[0])) {
+            kind = 'url';
+        } else if (/^[\p{N}.,]+$/u.test(match[0])) {
+            kind = 'number';
+        }
+        words.push({word: match[0], index: match.index, kind});
+    }
+    return words;
+}
+
+export function countWords(text: string): number {
+    return tokenizeWords(text).length;
+}
+
+// letters and digits in the words, counting accented letters once however they're encoded
+export function countWordCharacters(words: WordToken[]): number {
+    return words.reduce((total, word) => total + (word.word.match(/[\p{L}\p{N}]/gu) || []).length, 0);
+}
+
+export function countCharacters(text: string): number {
+    return countWordCharacters(tokenizeWords(text));
+}
+
+// true if the next word after the offset starts with a lowercase letter
+function nextWordIsLowercase(text: string, offset: number): boolean {
+    const regex = /\s*\p{Ll}/uy;
+    regex.lastIndex = offset;
+    return regex.test(text);
+}
+
+// true if the next word after the offset is a number
+function nextWordIsNumber(text: string, offset: number): boolean {
+    const regex = /\s*\p{N}/uy;
+    regex.lastIndex = offset;
+    return regex.test(text);
+}
+
+// true if the next word after the offset looks like part of a name: another
+// initial, or a capitalised word that doesn't usually start a sentence
+function nextWordIsName(text: string, offset: number): boolean {
+    const regex = /\s*(\p{Lu}[\p{L}\p{M}'’-]*)(\.?)/uy;
+    regex.lastIndex = offset;
+    const match = regex.exec(text);
+    if (!match) {
+        return false;
+    }
+    if (match[1].length === 1 && match[2]) {
+        return true;
+    }
+    return !sentenceStarters.includes(match[1].toLowerCase());
+}
+
+// true if the period at the end of the word, which is at offset in the text,
+// is part of an abbreviation rather than the end of a sentence
+function isAbbreviation(word: WordToken, text: string, offset: number, nextIsLowercase: boolean): boolean {
+    if (word.kind !== 'word') {
+        return false;
+    }
+    const lower = word.word.toLowerCase();
+    // letters separated by periods are initialisms, as in "U.S."
+    if (abbreviations.includes(lower) || /^(\p{L}\.)+\p{L}$/u.test(word.word)) {
+        return true;
+    }
+    // a single capital is an initial if a name follows, as in "J. R. R. Tolkien"
+    if (/^\p{Lu}$/u.test(word.word)) {
+        return nextWordIsName(text, offset);
+    }
+    if (numberAbbreviations.includes(lower) && nextWordIsNumber(text, offset)) {
+        return true;
+    }
+    return sentenceEndingAbbreviations.includes(lower) && nextIsLowercase;
+}
+
+// Splits text into sentences. A sentence ends at . ! ? or an ellipsis followed
+// by a space, a blank line, or the end of the text. Periods in abbreviations,
+// numbers and URLs don't end a sentence, and neither does a period or ellipsis
+// followed by a lowercase word. Closing quotes and brackets stay with the
+// sentence they close.
+export function splitSentences(text: string): SentenceToken[] {
+    const words = tokenizeWords(text);
+    // ends of sentences, as offsets just after the last character
+    const ends: number[] = [];
+
+    const boundaryRegex = /([.!?…]+)(["'”’)\]]*)(?=\s|$)|\n[^\S\n]*\n/gu;
+    let match: RegExpExecArray | null;
+    let wordIndex = 0;
+    while ((match = boundaryRegex.exec(text)) !== null) {
+        if (!match[1]) {
+            // blank line
+            ends.push(match.index);
+            continue;
+        }
+
+        // skip punctuation inside a url or number, eg "example.com/a." has its own period
+        while (wordIndex < words.length && words[wordIndex].index + words[wordIndex].word.length <= match.index) {
+            wordIndex++;
+        }
+        if (wordIndex < words.length && words[wordIndex].index < match.index) {
+            continue;
+        }
+
+        const nextIsLowercase = nextWordIsLowercase(text, match.index + match[0].length);
+        const previousWord = wordIndex > 0 ? words[wordIndex - 1] : undefined;
+        const punctuation = match[1];
+        const isPeriod = /^(\.+|…)$/.test(punctuation);
+        if (isPeriod && nextIsLowercase) {
+            continue;
+        }
+        if (punctuation === '.' && previousWord && previousWord.index + previousWord.word.length === match.index && isAbbreviation(previousWord, text, match.index + match[0].length, nextIsLowercase)) {
+            continue;
+        }
+        ends.push(match.index + match[0].length);
+    }
+    ends.push(text.length);
+
+    const sentences: SentenceToken[] = [];
+    let start = 0;
+    ends.forEach(end => {
+        const piece = text.slice(start, end);
+        const trimmed = piece.trim();
+        // skip pieces that have no words, like a stray "..."
+        if (/[\p{L}\p{N}]/u.test(trimmed)) {
+            const sentenceStart = start + piece.indexOf(trimmed);
+            sentences.push({text: trimmed, start: sentenceStart, end: sentenceStart + trimmed.length});
+        }
+        start = end;
+    });
+    return sentences;
+}
+
+export function countSentences(text: string): number {
+    return splitSentences(text).length;
+}
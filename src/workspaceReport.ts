@@ -0,0 +1,183 @@
+'use strict';
+// Scans every document in the workspace, including files
+// that aren't open, and shows the results in a tree view.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {workspace, Uri, Range, Selection, TreeDataProvider, TreeItem, TreeItemCollapsibleState, EventEmitter, Event} from 'vscode';
+
+import {analyzeText, describeGlossaryEffect, findDifficultSentences, isPassing, ReadabilityReport, SentenceReport} from './analysis';
+import {BackgroundAnalyzer, isLongDocument} from './backgroundAnalysis';
+import {getDocumentGlossary, getDocumentSettings, getProjectConfig} from './configuration';
+import {formatScore} from './formatting';
+import {getFormula} from './formulas';
+import {isIgnored} from './projectConfig';
+import {getLanguageIdForPath, getProseFileExtensions} from './prose';
+import {locateSentence} from './reporters';
+import {ReportSummary, summarizeReport} from './summary';
+
+// how many of the hardest sentences to list under each file
+const worstSentenceCount = 3;
+
+export interface SentenceResult {
+    sentence: SentenceReport;
+    range: Range;
+}
+
+export interface WorkspaceFileResult {
+    uri: Uri;
+    content: string;
+    report: ReadabilityReport;
+    summary: ReportSummary;
+    maxScore: number;
+    passed: boolean;
+    // 'hint', 'information', 'warning' or 'error'
+    sentenceSeverity: string;
+    difficultSentences: SentenceResult[];
+    worstSentences: SentenceResult[];
+}
+
+export type ReportSortOrder = 'score' | 'words' | 'name';
+
+async function readDocument(uri: Uri): Promise<string> {
+    // prefer open documents, since they may have unsaved changes
+    const openDoc = workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (openDoc) {
+        return openDoc.getText();
+    }
+    return fs.promises.readFile(uri.fsPath, 'utf8');
+}
+
+function toRange(content: string, sentence: SentenceReport): Range {
+    const location = locateSentence(content, sentence);
+    return new Range(location.startLine - 1, location.startColumn - 1, location.endLine - 1, location.endColumn - 1);
+}
+
+// long files are scored by the analyzer if there is one, so the editor keeps responding
+export async function checkWorkspaceFile(uri: Uri, analyzer?: BackgroundAnalyzer): Promise<WorkspaceFileResult> {
+    const content = await readDocument(uri);
+    const settings = getDocumentSettings(uri, content);
+
+    const options = {
+        formula: settings.formula,
+        customFormulas: settings.customFormulas,
+        languageId: getLanguageIdForPath(uri.fsPath),
+        language: settings.language,
+        glossary: getDocumentGlossary(uri, settings),
+    };
+    const report = analyzer && isLongDocument(content) ? await analyzer.analyze(content, options) : analyzeText(content, options);
+    const formula = getFormula(report.formula, settings.customFormulas);
+
+    const worstSentences = report.sentences.slice();
+    if (formula.lowerScoreIsEasier) {
+        worstSentences.sort((a, b) => b.score - a.score);
+    } else {
+        worstSentences.sort((a, b) => a.score - b.score);
+    }
+
+    const difficultSentences = findDifficultSentences(report, settings);
+    return {
+        uri,
+        content,
+        report,
+        summary: summarizeReport(report, settings.customFormulas),
+        maxScore: settings.maxDifficultyScore,
+        passed: isPassing(report, settings, difficultSentences),
+        sentenceSeverity: settings.sentenceSeverity,
+        difficultSentences: difficultSentences.map(sentence => ({sentence, range: toRange(content, sentence)})),
+        worstSentences: worstSentences.slice(0, worstSentenceCount).map(sentence => ({sentence, range: toRange(content, sentence)})),
+    };
+}
+
+export async function findWorkspaceDocuments(): Promise<Uri[]> {
+    const extensions = getProseFileExtensions().map(extension => extension.slice(1));
+    const uris = await workspace.findFiles(`**/*.{${extensions.join(',')}}`, '**/node_modules/**');
+    return uris.filter(uri => !isIgnored(getProjectConfig(uri), uri.fsPath));
+}
+
+class FileItem extends TreeItem {
+    constructor(public result: WorkspaceFileResult) {
+        super(path.basename(result.uri.fsPath), TreeItemCollapsibleState.Collapsed);
+        const report = result.report;
+        this.description = `${report.score} · ${report.statistics.words} words`;
+        const tooltip = [workspace.asRelativePath(result.uri), `${report.formulaName} score: ${report.score} (max ${result.maxScore})`];
+        const glossaryEffect = describeGlossaryEffect(report);
+        if (glossaryEffect) {
+            tooltip.push(glossaryEffect);
+        }
+        this.tooltip = tooltip.join('\n');
+        this.resourceUri = result.uri;
+        this.contextValue = 'readabilityFile';
+        this.command = {command: 'vscode.open', title: 'Open', arguments: [result.uri]};
+    }
+}
+
+class SentenceItem extends TreeItem {
+    constructor(uri: Uri, result: SentenceResult) {
+        super(result.sentence.text.replace(/\s+/g, ' '), TreeItemCollapsibleState.None);
+        this.description = `${formatScore(result.sentence.score)} · line ${result.range.start.line + 1}`;
+        this.tooltip = result.sentence.text;
+        this.contextValue = 'readabilitySentence';
+        this.command = {
+            command: 'vscode.open',
+            title: 'Go to sentence',
+            arguments: [uri, {selection: new Selection(result.range.start, result.range.end)}],
+        };
+    }
+}
+
+export type ReportItem = FileItem | SentenceItem;
+
+export class WorkspaceReportProvider implements TreeDataProvider<ReportItem> {
+    private _results: WorkspaceFileResult[] = [];
+    private _sortOrder: ReportSortOrder = 'score';
+    private _onDidChangeTreeData = new EventEmitter<ReportItem | undefined>();
+
+    public readonly onDidChangeTreeData: Event<ReportItem | undefined> = this._onDidChangeTreeData.event;
+
+    setResults(results: WorkspaceFileResult[]) {
+        this._results = results;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    has(uri: Uri): boolean {
+        return this._results.some(result => result.uri.toString() === uri.toString());
+    }
+
+    sortBy(order: ReportSortOrder) {
+        this._sortOrder = order;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getTreeItem(element: ReportItem): TreeItem {
+        return element;
+    }
+
+    getChildren(element?: ReportItem): ReportItem[] {
+        if (element instanceof FileItem) {
+            return element.result.worstSentences.map(sentence => new SentenceItem(element.result.uri, sentence));
+        }
+        if (element) {
+            return [];
+        }
+
+        const results = this._results.slice();
+        switch (this._sortOrder) {
+            case 'score':
+                // hardest to read first
+                results.sort((a, b) => a.report.lowerScoreIsEasier ? b.report.score - a.report.score : a.report.score - b.report.score);
+                break;
+            case 'words':
+                results.sort((a, b) => b.report.statistics.words - a.report.statistics.words);
+                break;
+            default:
+                results.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+                break;
+        }
+        return results.map(result => new FileItem(result));
+    }
+
+    dispose() {
+        this._onDidChangeTreeData.dispose();
+    }
+}